@@ -1,12 +1,59 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import {
   getPositionedBoxes,
+  createIncrementalLayout,
   flexPresets,
   Box,
   PositionedCanvasBox,
+  LayoutBackend,
+  LayoutProgress,
 } from "./layoutEngine";
+import type { StyleDiagnostic } from "@/styleIsolation";
+import {
+  compileBoxTree,
+  compileRegionedBoxTree,
+  getWrappingRows,
+  type BoxTemplate,
+  type DatasetRecord,
+} from "@/templateCompiler";
+import {
+  getUnusedName,
+  parseDatasetFile,
+  type ParsedDataset,
+} from "@/datasetImport";
+import { exportLayout } from "@/layoutExport";
+import { getBoxStyles } from "@/boxStyles";
+import { getBoxTreeSvg, svgToPngBlob } from "@/svgExport";
+import { getSplitSlidesPptx } from "@/pptxExport";
+import {
+  drawCanvasScene,
+  drawLayoutOverlays,
+  getVisibleWorldRect,
+  type Camera,
+  type CanvasDrawStats,
+  type LayoutOverlays,
+} from "@/canvasRenderer";
+import {
+  createSpatialIndex,
+  type BoxKey,
+  type SpatialIndex,
+} from "@/spatialIndex";
+import type { LayoutRect } from "@/boxModel";
+import {
+  applyCssOverrides,
+  getOverrideId,
+  type CssOverrides,
+} from "@/cssOverrides";
 import React from "react";
-import { getTranslatedBox, splitChildrenOfRootBox } from "@/splitEngine";
+import {
+  getTranslatedBox,
+  splitContainersInLockstep,
+  SplitDirection,
+  type SplitStrategy,
+  type SplitTrace,
+  type SplitTracePass,
+} from "@/splitEngine";
+import type { SlideChrome } from "@/slideChrome";
 
 // Generate random color for each shape
 const generateColor = (id: string): string => {
@@ -14,6 +61,70 @@ const generateColor = (id: string): string => {
   return `hsl(${hue % 360}, 70%, 60%)`;
 };
 
+/**a finished layout of the slide, and the tree it was laid out from */
+interface SlideLayout {
+  rootBox: Box;
+  positionedBox: PositionedCanvasBox;
+  calculationTime: number;
+  changedBoxIds: string[];
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**colors alternate by slide, so consecutive rows on the same slide share a color */
+const splitTraceColors = [
+  "rgba(59, 130, 246, 0.15)",
+  "rgba(234, 88, 12, 0.15)",
+];
+
+/**one band per traced row across the container it was split from, labelled with why it moved */
+function getSplitTraceBands(
+  pass: SplitTracePass,
+  container: PositionedCanvasBox
+): WhiteboardBand[] {
+  return pass.rows.map((row, i) => ({
+    key: `${container.id}-row-${i}`,
+    rect:
+      pass.axis === "y"
+        ? {
+            x: container.x,
+            y: row.top,
+            width: container.width,
+            height: row.bottom - row.top,
+          }
+        : {
+            x: row.top,
+            y: container.y,
+            width: row.bottom - row.top,
+            height: container.height,
+          },
+    color: splitTraceColors[row.slideIndex % splitTraceColors.length],
+    breakEdge: row.breakReason
+      ? pass.axis === "y"
+        ? "top"
+        : "left"
+      : undefined,
+    label: `row ${i + 1} → slide ${row.slideIndex + 1}${
+      row.breakReason
+        ? ` (${row.breakReason}: needed ${row.neededSize}px of ${pass.maxSize}px)`
+        : ""
+    } • ${row.boxIds.join(", ")}`,
+  }));
+}
+
+function getCssById(box: Box, cssById: Map<string, string>) {
+  cssById.set(box.id, box.css);
+  box.children?.forEach((child) => getCssById(child, cssById));
+  return cssById;
+}
+
 // Helper function to generate random number in range
 const randomInRange = (min: number, max: number): number => {
   return Math.floor(Math.random() * (max - min + 1)) + min;
@@ -22,6 +133,16 @@ const randomInRange = (min: number, max: number): number => {
 export function LayoutDemo() {
   // Container configuration
   const [selectedPreset, setSelectedPreset] = useState("flexColumn");
+  const [layoutBackend, setLayoutBackend] = useState<LayoutBackend>("dom");
+  const [renderer, setRenderer] = useState<WhiteboardRenderer>("dom");
+  const [layoutOverlays, setLayoutOverlays] = useState<LayoutOverlays>({
+    boxModel: false,
+    flexLines: false,
+  });
+  // box models cost a computed style read per box, so only lay them out for the overlays
+  const includeBoxModel = layoutOverlays.boxModel || layoutOverlays.flexLines;
+  const [nonBlockingLayout, setNonBlockingLayout] = useState(true);
+  const [showStyleDiagnostics, setShowStyleDiagnostics] = useState(false);
   const [slideCss, setSlideCss] = useState(flexPresets.flexColumn.slideCss);
   const [topLevelCardCss, setTopLevelCardCss] = useState(
     flexPresets.flexColumn.topLevelCardCss
@@ -32,7 +153,21 @@ export function LayoutDemo() {
   >(85);
   // Splitting configuration
   const [enableSplitting, setEnableSplitting] = useState(true);
+  const [breakGroupCards, setBreakGroupCards] = useState(true);
+  const [reflowSplitSlides, setReflowSplitSlides] = useState(false);
+  const [showSplitTrace, setShowSplitTrace] = useState(false);
+  const [splitDirection, setSplitDirection] =
+    useState<SplitDirection>("vertical");
+  const [splitStrategy, setSplitStrategy] = useState<SplitStrategy>("greedy");
+  const [minRowsPerSlide, setMinRowsPerSlide] = useState(0);
+  const [minLastSlideItems, setMinLastSlideItems] = useState(0);
+  const [repeatSlideChrome, setRepeatSlideChrome] = useState(false);
+  const [slideHeaderText, setSlideHeaderText] = useState("Cards {continued}");
+  const [slideFooterText, setSlideFooterText] = useState(
+    "{slideNumber} of {slideCount}"
+  );
 
+  const [cardRegionCount, setCardRegionCount] = useState(1);
   const [subCardMin, setSubCardMin] = useState(1);
   const [subCardMax, setSubCardMax] = useState(21);
   const [wrappingLayoutContainerCss, setWrappingLayoutContainerCss] = useState(
@@ -44,59 +179,267 @@ export function LayoutDemo() {
   const [distinctFieldValuesCss, setDistinctFieldValuesCss] = useState(
     flexPresets.flexColumn.distinctFieldValuesCss
   );
+  const [cardText, setCardText] = useState("");
+  // a dropped CSV or JSON file replaces the random items
+  const [importedDataset, setImportedDataset] = useState<{
+    fileName: string;
+    dataset: ParsedDataset;
+  } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [groupByColumn, setGroupByColumn] = useState("");
+  const [textColumn, setTextColumn] = useState("");
   const [splitSlideContainerCss, setSplitSlideContainerCss] = useState(
     "display: flex; gap: 100px; flex-wrap: wrap; max-width: 3000px"
   );
 
   const enableMultiLevel = subCardMax > 0;
 
-  let totalLeafCards = 0;
-  const rootSlideBox: Box = {
-    id: `root-slide`,
-    css: slideCss,
-    type: "Slide",
-    children: [
-      {
-        id: `wrap-layout`,
-        type: "Wrapping Row",
-        css: wrappingLayoutContainerCss,
-        children: Array.from({ length: topLevelCardCount ?? 0 }, (_, i) => ({
-          id: `top-level-card-${i}`,
-          css: topLevelCardCss,
-          type: enableMultiLevel ? "Group Card" : "Card",
-          tag: i,
-          children: enableMultiLevel
-            ? [
-                {
-                  id: `top-level-card-${i}-distinct-values`,
-                  type: "Distinct Field Values",
-                  children: Array.from(
-                    { length: randomInRange(subCardMin, subCardMax) },
-                    (_, j) => {
-                      totalLeafCards += 1;
-                      return {
-                        id: `top-level-card-${i}-distinct-values-child-${j}`,
-                        css: secondLevelCardCss,
-                        type: "Card",
-                        tag: totalLeafCards,
-                      };
-                    }
-                  ),
-                  css: distinctFieldValuesCss,
-                },
-              ]
-            : [],
-        })),
+  // memoized so random sub-card counts only change with the inputs, and async results match their tree
+  const { generatedSlideBox, compileError } = useMemo((): {
+    generatedSlideBox: Box;
+    compileError?: string;
+  } => {
+    // with several regions, records are dealt out in blocks by getRegion, so each keeps their order
+    const compile = (args: {
+      records: DatasetRecord[];
+      template: BoxTemplate;
+      getRegion: (record: DatasetRecord, index: number) => number;
+    }) =>
+      cardRegionCount > 1
+        ? compileRegionedBoxTree({
+            template: args.template,
+            regions: Array.from({ length: cardRegionCount }, (_, region) =>
+              args.records.filter((r, i) => args.getRegion(r, i) === region)
+            ),
+          })
+        : compileBoxTree({ records: args.records, template: args.template });
+
+    if (importedDataset) {
+      const cardTextStyle = { font: "12px sans-serif", lineHeight: 14 };
+      const { records, columns } = importedDataset.dataset;
+      // rows don't always have a unique column, so cards are keyed by row number, in a field
+      // no column uses
+      const rowKeyField = getUnusedName(
+        "__row",
+        columns.map((c) => c.name)
+      );
+      const keyedRecords = records.map((record, i) => ({
+        ...record,
+        [rowKeyField]: i + 1,
+      }));
+      const getRegion = (_: DatasetRecord, i: number) =>
+        Math.floor((i * cardRegionCount) / records.length);
+      const template: BoxTemplate = {
+        slideCss,
+        wrappingRowCss: wrappingLayoutContainerCss,
+        cardCss: groupByColumn ? secondLevelCardCss : topLevelCardCss,
+        keyField: rowKeyField,
+        cardText: textColumn
+          ? { ...cardTextStyle, field: textColumn, maxLines: 3 }
+          : undefined,
+        groupBy: groupByColumn
+          ? [
+              {
+                field: groupByColumn,
+                groupCardCss: topLevelCardCss,
+                distinctFieldValuesCss,
+                label: cardTextStyle,
+              },
+            ]
+          : [],
+      };
+      try {
+        return {
+          generatedSlideBox: compile({
+            records: keyedRecords,
+            getRegion,
+            template,
+          }),
+        };
+      } catch (error) {
+        // e.g. a column holding both 1 and "1", whose groups would share an id
+        return {
+          generatedSlideBox: compile({
+            records: keyedRecords,
+            getRegion,
+            template: { ...template, groupBy: [] },
+          }),
+          compileError: (error as Error).message,
+        };
+      }
+    }
+
+    // synthetic records: one group per top-level card, with a random number of items each
+    const records: DatasetRecord[] = [];
+    for (let i = 0; i < (topLevelCardCount ?? 0); i++) {
+      const itemCount = enableMultiLevel
+        ? randomInRange(subCardMin, subCardMax)
+        : 1;
+      for (let j = 0; j < itemCount; j++) {
+        const key = records.length + 1;
+        records.push({
+          key: enableMultiLevel ? key : i,
+          group: i,
+          text: `${cardText} ${key}`,
+        });
+      }
+    }
+
+    const generatedSlideBox = compile({
+      records,
+      // groups stay whole, so a region never holds half of one
+      getRegion: (record) =>
+        Math.floor(
+          (Number(record.group) * cardRegionCount) / (topLevelCardCount ?? 1)
+        ),
+      template: {
+        slideCss,
+        wrappingRowCss: wrappingLayoutContainerCss,
+        cardCss: enableMultiLevel ? secondLevelCardCss : topLevelCardCss,
+        keyField: "key",
+        cardText: cardText
+          ? {
+              field: "text",
+              font: "12px sans-serif",
+              lineHeight: 14,
+              maxLines: 3,
+            }
+          : undefined,
+        groupBy: enableMultiLevel
+          ? [
+              {
+                field: "group",
+                groupCardCss: topLevelCardCss,
+                distinctFieldValuesCss,
+              },
+            ]
+          : [],
       },
-    ],
+    });
+    return { generatedSlideBox };
+  }, [
+    slideCss,
+    wrappingLayoutContainerCss,
+    topLevelCardCount,
+    topLevelCardCss,
+    enableMultiLevel,
+    distinctFieldValuesCss,
+    subCardMin,
+    subCardMax,
+    secondLevelCardCss,
+    cardText,
+    importedDataset,
+    groupByColumn,
+    textColumn,
+    cardRegionCount,
+  ]);
+
+  // per-box CSS from the inspector, layered over the generated tree
+  const [cssOverrides, setCssOverrides] = useState<CssOverrides>({});
+  const setCssOverride = (id: string, css: string | undefined) =>
+    setCssOverrides((current) => {
+      const { [id]: _, ...rest } = current;
+      return css?.trim() ? { ...rest, [id]: css } : rest;
+    });
+  const rootSlideBox = useMemo(
+    () =>
+      applyCssOverrides({
+        rootBox: generatedSlideBox,
+        overrides: cssOverrides,
+      }),
+    [generatedSlideBox, cssOverrides]
+  );
+
+  const handleDatasetFile = (file: File | undefined) => {
+    if (!file) return;
+    parseDatasetFile(file).then(
+      (dataset) => {
+        setImportedDataset({ fileName: file.name, dataset });
+        setImportError(null);
+        // default to the first string column for card text
+        setTextColumn(
+          dataset.columns.find((c) => c.type === "string")?.name ?? ""
+        );
+        setGroupByColumn("");
+      },
+      (error: Error) => setImportError(`${file.name}: ${error.message}`)
+    );
   };
 
-  const startTime = performance.now();
+  // the slide layout is patched in place between renders instead of rebuilt
+  const incrementalLayout = useMemo(
+    () => createIncrementalLayout({ backend: layoutBackend, includeBoxModel }),
+    [layoutBackend, includeBoxModel]
+  );
+  useEffect(() => () => incrementalLayout.dispose(), [incrementalLayout]);
+
+  // non-blocking layouts keep the last finished result on screen while the next one runs
+  const [asyncLayout, setAsyncLayout] = useState<SlideLayout | null>(null);
+  const [layoutProgress, setLayoutProgress] = useState<LayoutProgress | null>(
+    null
+  );
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  useEffect(() => {
+    if (!nonBlockingLayout) return;
+    const controller = new AbortController();
+    const startTime = performance.now();
+    incrementalLayout
+      .layoutAsync(rootSlideBox, {
+        signal: controller.signal,
+        onProgress: setLayoutProgress,
+      })
+      .then(
+        ({ positionedBox, changedBoxIds }) => {
+          setAsyncLayout({
+            rootBox: rootSlideBox,
+            positionedBox,
+            calculationTime: performance.now() - startTime,
+            changedBoxIds,
+          });
+          setLayoutError(null);
+          setLayoutProgress(null);
+        },
+        (error: Error) => {
+          if (controller.signal.aborted) return;
+          setLayoutError(error.message);
+          setLayoutProgress(null);
+        }
+      );
+    return () => {
+      controller.abort();
+      setLayoutProgress(null);
+    };
+  }, [nonBlockingLayout, rootSlideBox, incrementalLayout]);
+
+  // blocking layouts run during render, so only when the tree changes
+  const blockingLayout = useMemo((): SlideLayout | null => {
+    if (nonBlockingLayout) return null;
+    const startTime = performance.now();
+    const { positionedBox, changedBoxIds } =
+      incrementalLayout.layout(rootSlideBox);
+    return {
+      rootBox: rootSlideBox,
+      positionedBox,
+      calculationTime: performance.now() - startTime,
+      changedBoxIds,
+    };
+  }, [nonBlockingLayout, rootSlideBox, incrementalLayout]);
 
-  const positionedBox = getPositionedBoxes({ rootBox: rootSlideBox });
+  const layout = nonBlockingLayout ? asyncLayout : blockingLayout;
+  const positionedBox = layout?.positionedBox;
 
-  const endTime = performance.now();
-  const calculationTime = endTime - startTime;
+  // a separate DOM pass, since diagnostics read computed styles for every box
+  const styleDiagnostics = useMemo(() => {
+    if (!showStyleDiagnostics) return null;
+    let diagnostics: StyleDiagnostic[] = [];
+    getPositionedBoxes({
+      rootBox: rootSlideBox,
+      onStyleDiagnostics: (d) => {
+        diagnostics = d;
+      },
+    });
+    return diagnostics;
+  }, [showStyleDiagnostics, rootSlideBox]);
 
   // todo: slides split. REALLY COOL IDEA: we could just treat the slides themselves as being
   //part of another box... grid layout, etc
@@ -129,32 +472,255 @@ export function LayoutDemo() {
 
   let totalBoxes = addUpChildren(0, rootSlideBox);
 
-  const wrapLayoutShape = positionedBox.children?.at(0);
+  // every container on the slide is split, in lockstep when there are several regions
+  const wrapLayoutShapes = useMemo(
+    () => (positionedBox ? getWrappingRows(positionedBox) : []),
+    [positionedBox]
+  );
+  const wrapLayoutSourceBoxes = layout ? getWrappingRows(layout.rootBox) : [];
 
-  const splitSlides = wrapLayoutShape
-    ? splitChildrenOfRootBox({
-        rootBox: wrapLayoutShape,
-      })
-    : [];
+  // memoized, so typing into unrelated inputs doesn't split the whole layout again
+  const { splitSlides, splitTraces, splitError } = useMemo((): {
+    splitSlides: PositionedCanvasBox[][] | null;
+    /**by container, when the trace is shown */
+    splitTraces: Array<SplitTrace | undefined>;
+    splitError?: string;
+  } => {
+    if (!enableSplitting) {
+      return { splitSlides: null, splitTraces: [] };
+    }
+    const splitTraces: Array<SplitTrace | undefined> = [];
+    const containers: Parameters<
+      typeof splitContainersInLockstep
+    >[0]["containers"] = wrapLayoutShapes.map((shape, i) => {
+      const wrapLayoutSourceBox = wrapLayoutSourceBoxes[i];
+      return {
+        rootBox: shape,
+        direction: splitDirection,
+        policy: {
+          strategy: splitStrategy,
+          minRowsPerSlide,
+          minLastSlideItems,
+        },
+        breakGroupCards:
+          breakGroupCards && wrapLayoutSourceBox
+            ? { sourceBox: wrapLayoutSourceBox, layoutBackend }
+            : undefined,
+        reflow:
+          reflowSplitSlides && wrapLayoutSourceBox
+            ? {
+                sourceBox: wrapLayoutSourceBox,
+                layoutBackend,
+                includeBoxModel,
+              }
+            : undefined,
+        onTrace: showSplitTrace
+          ? (trace) => {
+              splitTraces[i] = trace;
+            }
+          : undefined,
+      };
+    });
+    // one header and footer across all the regions, counting the slides of the whole deck
+    const chrome: SlideChrome | undefined = repeatSlideChrome
+      ? {
+          header: {
+            id: "slide-header",
+            type: "Slide Chrome",
+            css: "padding: 8px 12px; margin-bottom: 10px;",
+            text: {
+              content: slideHeaderText,
+              font: "bold 24px sans-serif",
+              lineHeight: 30,
+            },
+          },
+          footer: {
+            id: "slide-footer",
+            type: "Slide Chrome",
+            css: "padding: 4px 12px; margin-top: 10px;",
+            text: {
+              content: slideFooterText,
+              font: "16px sans-serif",
+              lineHeight: 20,
+            },
+          },
+          layoutBackend,
+        }
+      : undefined;
+    try {
+      const splitSlides = splitContainersInLockstep({ containers, chrome });
+      return { splitSlides, splitTraces };
+    } catch (error) {
+      // e.g. a slide failing to lay out again when reflowing
+      return {
+        splitSlides: null,
+        splitTraces: [],
+        splitError: (error as Error).message,
+      };
+    }
+  }, [
+    enableSplitting,
+    positionedBox,
+    layout?.rootBox,
+    splitDirection,
+    splitStrategy,
+    minRowsPerSlide,
+    minLastSlideItems,
+    breakGroupCards,
+    reflowSplitSlides,
+    layoutBackend,
+    includeBoxModel,
+    repeatSlideChrome,
+    slideHeaderText,
+    slideFooterText,
+    showSplitTrace,
+  ]);
 
-  const positionedSplitSlides = getPositionedBoxes({
-    rootBox: {
+  // the trace is drawn over the unsplit layout, so the split slides are hidden while it's on
+  const showSplitSlides = enableSplitting && !showSplitTrace;
+  const splitTracePasses = wrapLayoutShapes.flatMap((shape, i) => {
+    const pass = splitTraces[i]?.passes[0];
+    const clippedCount = splitTraces[i]?.clippedBoxIds?.length ?? 0;
+    return pass ? [{ shape, pass, region: i, clippedCount }] : [];
+  });
+  const splitTraceBands =
+    splitTracePasses.length > 0
+      ? splitTracePasses.flatMap(({ pass, shape }) =>
+          getSplitTraceBands(pass, shape)
+        )
+      : undefined;
+
+  const splitSlideCount = splitSlides?.length ?? 0;
+  const splitSlidesContainerBox: Box = useMemo(
+    () => ({
       css: splitSlideContainerCss,
       id: "split-slides-container",
       type: "Slides Container",
-      children: Array.from({ length: splitSlides?.length ?? 0 }).map(
-        (_, i) => ({
-          // since ppt slides are a fixed size, we can just pass the original css.
-          css: slideCss,
-          id: `split-slide-${i}`,
-          type: "Slide",
+      children: Array.from({ length: splitSlideCount }).map((_, i) => ({
+        // since ppt slides are a fixed size, we can just pass the original css.
+        css: slideCss,
+        id: `split-slide-${i}`,
+        type: "Slide",
+      })),
+    }),
+    [splitSlideContainerCss, splitSlideCount, slideCss]
+  );
+
+  const positionedSplitSlides = useMemo(
+    () =>
+      getPositionedBoxes({
+        backend: layoutBackend,
+        rootBox: splitSlidesContainerBox,
+      }),
+    [layoutBackend, splitSlidesContainerBox]
+  );
+
+  const sourceCssById = useMemo(
+    () => getCssById(generatedSlideBox, new Map()),
+    [generatedSlideBox]
+  );
+
+  // split fragments point back at the box they continue
+  const getSourceCss = (box: PositionedCanvasBox) =>
+    sourceCssById.get(box.id) ??
+    (box.continuationOf && sourceCssById.get(box.continuationOf)) ??
+    getCssById(splitSlidesContainerBox, new Map()).get(box.id);
+
+  const downloadLayoutExport = () => {
+    if (!positionedBox) return;
+    const exported = exportLayout({
+      positionedBox,
+      slides:
+        enableSplitting && splitSlides
+          ? (positionedSplitSlides.children ?? []).map((frame, i) => ({
+              frame,
+              boxes: splitSlides[i] ?? [],
+            }))
+          : undefined,
+    });
+    downloadBlob(
+      new Blob([JSON.stringify(exported, null, 2)], {
+        type: "application/json",
+      }),
+      "layout-export.json"
+    );
+  };
+
+  // each split slide as one tree in canvas space, the way the whiteboard draws it
+  const splitSlideTrees = useMemo(
+    () =>
+      (positionedSplitSlides.children ?? []).map(
+        (slide, i): PositionedCanvasBox => ({
+          ...slide,
+          children: [
+            ...wrapLayoutShapes.map((shape) =>
+              getTranslatedBox({ ...shape, children: undefined }, [
+                slide.x,
+                slide.y,
+              ])
+            ),
+            ...(splitSlides?.[i] ?? []).map((b) =>
+              getTranslatedBox(b, [slide.x, slide.y])
+            ),
+          ],
         })
       ),
-    },
-  });
+    [positionedSplitSlides, wrapLayoutShapes, splitSlides]
+  );
+
+  // memoized, so the whiteboard's spatial index is only built again for a new layout or split
+  const whiteboardBoxes = useMemo(
+    () =>
+      showSplitSlides ? splitSlideTrees : positionedBox ? [positionedBox] : [],
+    [showSplitSlides, splitSlideTrees, positionedBox]
+  );
+
+  const downloadSvg = () => {
+    const box = enableSplitting
+      ? {
+          ...positionedSplitSlides,
+          children: splitSlideTrees,
+        }
+      : positionedBox;
+    if (!box) return;
+    downloadBlob(
+      new Blob([getBoxTreeSvg({ box })], { type: "image/svg+xml" }),
+      "layout.svg"
+    );
+  };
+
+  const downloadPptx = () => {
+    const slides = splitSlideTrees;
+    if (!slides.length) return;
+    downloadBlob(
+      new Blob([getSplitSlidesPptx({ slides })], {
+        type: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      }),
+      "split-slides.pptx"
+    );
+  };
+
+  // rasterizing runs after the click, so its failures are shown with the layout's
+  const [pngError, setPngError] = useState<string | null>(null);
+  const downloadSlidePng = async (slideIndex: number) => {
+    const slide = splitSlideTrees[slideIndex];
+    if (!slide) return;
+    const svg = getBoxTreeSvg({ box: slide, padding: 0 });
+    downloadBlob(
+      await svgToPngBlob({ svg, scale: 2 }),
+      `slide-${slideIndex + 1}.png`
+    );
+  };
 
   return (
-    <div className="p-10 font-sans text-black flex flex-col gap-10 max-w-7xl mx-auto w-full">
+    <div
+      className="p-10 font-sans text-black flex flex-col gap-10 max-w-7xl mx-auto w-full"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleDatasetFile(e.dataTransfer.files[0]);
+      }}
+    >
       <div className="flex flex-col gap-5">
         <h1 className="text-3xl font-bold">CSS Layout Engine Demo</h1>
         <p className="">
@@ -226,6 +792,50 @@ export function LayoutDemo() {
             ))}
           </select>
         </div>
+        <div className="flex items-center gap-3 flex-1 min-w-[250px]">
+          <label className="text-lg font-bold text-gray-800 whitespace-nowrap">
+            Layout Backend:
+          </label>
+          <select
+            className="max-w-[200px] flex-1 border-2 border-blue-300 rounded-md text-base p-2 bg-white cursor-pointer hover:border-blue-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-colors"
+            value={layoutBackend}
+            onChange={(e) => setLayoutBackend(e.target.value as LayoutBackend)}
+          >
+            <option value="dom">Browser DOM</option>
+            <option value="solver">TypeScript Solver</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-lg font-bold text-gray-800 whitespace-nowrap">
+            Renderer:
+          </label>
+          <select
+            className="max-w-[200px] flex-1 border-2 border-blue-300 rounded-md text-base p-2 bg-white cursor-pointer hover:border-blue-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-colors"
+            value={renderer}
+            onChange={(e) => setRenderer(e.target.value as WhiteboardRenderer)}
+          >
+            <option value="dom">DOM</option>
+            <option value="canvas">Canvas</option>
+          </select>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={nonBlockingLayout}
+            onChange={(e) => setNonBlockingLayout(e.target.checked)}
+            className="cursor-pointer w-4 h-4"
+          />
+          <span className="font-semibold">Non-blocking Layout</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={showStyleDiagnostics}
+            onChange={(e) => setShowStyleDiagnostics(e.target.checked)}
+            className="cursor-pointer w-4 h-4"
+          />
+          <span className="font-semibold">Style Diagnostics</span>
+        </label>
         <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
           <input
             type="checkbox"
@@ -249,6 +859,138 @@ export function LayoutDemo() {
             />
           </div>
         )}
+        {enableSplitting && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-semibold whitespace-nowrap">
+              Split Direction:
+            </label>
+            <select
+              className="border border-gray-300 rounded p-1.5 text-sm bg-white cursor-pointer"
+              value={splitDirection}
+              onChange={(e) =>
+                setSplitDirection(e.target.value as SplitDirection)
+              }
+            >
+              <option value="vertical">Vertical (rows)</option>
+              <option value="horizontal">Horizontal (columns)</option>
+              <option value="both">Both (grid of slides)</option>
+            </select>
+          </div>
+        )}
+        {enableSplitting && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-semibold whitespace-nowrap">
+              Split Policy:
+            </label>
+            <select
+              className="border border-gray-300 rounded p-1.5 text-sm bg-white cursor-pointer"
+              value={splitStrategy}
+              onChange={(e) =>
+                setSplitStrategy(e.target.value as SplitStrategy)
+              }
+            >
+              <option value="greedy">Greedy (fill each slide)</option>
+              <option value="balanced">Balanced (even rows per slide)</option>
+              <option value="fill-then-balance">
+                Fill, then balance the last two
+              </option>
+            </select>
+            <label className="text-sm font-semibold whitespace-nowrap">
+              Min Rows Per Slide:
+            </label>
+            <input
+              type="number"
+              value={minRowsPerSlide}
+              onChange={(e) =>
+                setMinRowsPerSlide(Math.max(0, Number(e.target.value)))
+              }
+              min="0"
+              className="border border-gray-300 rounded p-1.5 w-16 text-sm"
+            />
+            <label className="text-sm font-semibold whitespace-nowrap">
+              Min Items on Last Slide:
+            </label>
+            <input
+              type="number"
+              value={minLastSlideItems}
+              onChange={(e) =>
+                setMinLastSlideItems(Math.max(0, Number(e.target.value)))
+              }
+              min="0"
+              className="border border-gray-300 rounded p-1.5 w-16 text-sm"
+            />
+          </div>
+        )}
+        {enableSplitting && (
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={repeatSlideChrome}
+                onChange={(e) => setRepeatSlideChrome(e.target.checked)}
+                className="cursor-pointer w-4 h-4"
+              />
+              <span className="font-semibold">
+                Repeat Header and Footer on Split Slides
+              </span>
+            </label>
+            {repeatSlideChrome && (
+              <>
+                <input
+                  type="text"
+                  value={slideHeaderText}
+                  onChange={(e) => setSlideHeaderText(e.target.value)}
+                  className="border border-gray-300 rounded p-1.5 font-mono text-xs w-48"
+                  placeholder="Header, e.g. Cards {continued}"
+                />
+                <input
+                  type="text"
+                  value={slideFooterText}
+                  onChange={(e) => setSlideFooterText(e.target.value)}
+                  className="border border-gray-300 rounded p-1.5 font-mono text-xs w-48"
+                  placeholder="Footer, e.g. {slideNumber} of {slideCount}"
+                />
+              </>
+            )}
+          </div>
+        )}
+        {enableSplitting && enableMultiLevel && (
+          <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={breakGroupCards}
+              onChange={(e) => setBreakGroupCards(e.target.checked)}
+              className="cursor-pointer w-4 h-4"
+            />
+            <span className="font-semibold">
+              Break Oversized Group Cards Across Slides
+            </span>
+          </label>
+        )}
+        {enableSplitting && (
+          <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={reflowSplitSlides}
+              onChange={(e) => setReflowSplitSlides(e.target.checked)}
+              className="cursor-pointer w-4 h-4"
+            />
+            <span className="font-semibold">
+              Re-flow Split Slides Through the Layout Engine
+            </span>
+          </label>
+        )}
+        {enableSplitting && (
+          <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={showSplitTrace}
+              onChange={(e) => setShowSplitTrace(e.target.checked)}
+              className="cursor-pointer w-4 h-4"
+            />
+            <span className="font-semibold">Show Split Trace</span>
+          </label>
+        )}
         <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
           <input
             type="checkbox"
@@ -272,6 +1014,71 @@ export function LayoutDemo() {
 
       <div className="flex gap-5 flex-wrap lg:flex-nowrap w-full">
         <div className="flex flex-col gap-5 w-full max-w-[400px]">
+          <div className="border shadow-lg p-3">
+            <h2 className="text-xl font-semibold mb-4">Dataset</h2>
+            <div className="flex flex-col gap-2 text-sm">
+              <p className="text-gray-600">
+                Drop a CSV or JSON file anywhere on the page, or pick one:
+              </p>
+              <input
+                type="file"
+                accept=".csv,.tsv,.json,text/csv,application/json"
+                onChange={(e) => handleDatasetFile(e.target.files?.[0])}
+              />
+              {importError && <p className="text-red-600">{importError}</p>}
+              {compileError && (
+                <p className="text-red-600">Grouping failed: {compileError}</p>
+              )}
+              {importedDataset && (
+                <>
+                  <p>
+                    <strong>{importedDataset.fileName}</strong> •{" "}
+                    {importedDataset.dataset.records.length} rows
+                  </p>
+                  <label className="flex items-center gap-2">
+                    <span className="font-semibold whitespace-nowrap">
+                      Group By:
+                    </span>
+                    <select
+                      className="border border-gray-300 rounded p-1 flex-1"
+                      value={groupByColumn}
+                      onChange={(e) => setGroupByColumn(e.target.value)}
+                    >
+                      <option value="">(none)</option>
+                      {importedDataset.dataset.columns.map((c) => (
+                        <option key={c.name} value={c.name}>
+                          {c.name} ({c.type})
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <span className="font-semibold whitespace-nowrap">
+                      Card Text:
+                    </span>
+                    <select
+                      className="border border-gray-300 rounded p-1 flex-1"
+                      value={textColumn}
+                      onChange={(e) => setTextColumn(e.target.value)}
+                    >
+                      <option value="">(none)</option>
+                      {importedDataset.dataset.columns.map((c) => (
+                        <option key={c.name} value={c.name}>
+                          {c.name} ({c.type})
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    className="py-1 px-3 text-center border border-gray-400 text-gray-700 hover:bg-gray-50 rounded transition-colors text-sm self-start"
+                    onClick={() => setImportedDataset(null)}
+                  >
+                    Back to random items
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
           <div className="border shadow-lg p-3">
             {/* Shapes Panel */}
             <div style={{ flex: "1", minWidth: "300px" }}>
@@ -383,6 +1190,24 @@ export function LayoutDemo() {
                     </div>
                   </div>
                 )}
+
+                <div className="mt-4 pt-4 border-t border-gray-300">
+                  <label className="text-sm font-semibold block mb-2">
+                    Card Regions (split in lockstep)
+                  </label>
+                  <input
+                    type="number"
+                    value={cardRegionCount}
+                    onChange={(e) =>
+                      setCardRegionCount(
+                        Math.min(4, Math.max(1, Number(e.target.value)))
+                      )
+                    }
+                    min="1"
+                    max="4"
+                    className="border border-gray-300 rounded p-2 w-16 text-sm"
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -478,6 +1303,13 @@ export function LayoutDemo() {
                           placeholder="CSS for nested cards..."
                           rows={4}
                         />
+                        <input
+                          type="text"
+                          className="border rounded p-2 text-xs bg-white"
+                          value={cardText}
+                          onChange={(e) => setCardText(e.target.value)}
+                          placeholder="Card text, e.g. a title that wraps..."
+                        />
                       </div>
                     </div>
                   )}
@@ -487,12 +1319,144 @@ export function LayoutDemo() {
           </div>
         </div>
         <Whiteboard
+          renderer={renderer}
+          overlays={layoutOverlays}
+          onOverlaysChange={setLayoutOverlays}
+          inspector={(box) => {
+            const overrideId = getOverrideId(box);
+            return (
+              <>
+                <pre
+                  style={{
+                    background: "#f8f9fa",
+                    padding: "6px",
+                    borderRadius: "4px",
+                    whiteSpace: "pre-wrap",
+                    margin: "4px 0 0",
+                  }}
+                >
+                  {getSourceCss(box) || "(no css)"}
+                </pre>
+                {sourceCssById.has(overrideId) ? (
+                  <textarea
+                    className="border rounded p-2 font-mono text-xs bg-yellow-50 w-full mt-1"
+                    value={cssOverrides[overrideId] ?? ""}
+                    onChange={(e) => setCssOverride(overrideId, e.target.value)}
+                    placeholder={`CSS override for ${overrideId}, e.g. width: 300px`}
+                    rows={3}
+                  />
+                ) : (
+                  <p style={{ margin: "4px 0 0", color: "#666" }}>
+                    Only boxes from the generated tree can be overridden
+                  </p>
+                )}
+              </>
+            );
+          }}
+          bands={splitTraceBands}
+          boxes={whiteboardBoxes}
           top={
             <div>
               <p style={{ margin: 0, fontSize: "12px", color: "#666" }}>
-                <strong>{totalBoxes} boxes</strong> • Layout calculated in{" "}
-                {calculationTime.toFixed(2)}ms
+                <strong>{totalBoxes} boxes</strong>
+                {layout && (
+                  <>
+                    {" "}
+                    • Layout calculated in {layout.calculationTime.toFixed(2)}ms
+                  </>
+                )}
+                {layout?.changedBoxIds && (
+                  <> • {layout.changedBoxIds.length} moved or resized</>
+                )}
+                {layoutProgress && (
+                  <>
+                    {" "}
+                    •{" "}
+                    {layoutProgress.phase === "build"
+                      ? "Building"
+                      : "Measuring"}{" "}
+                    {layoutProgress.completed}/{layoutProgress.total} boxes…
+                  </>
+                )}
+                {styleDiagnostics && (
+                  <> • {styleDiagnostics.length} style mismatches</>
+                )}
               </p>
+              {layoutError && (
+                <p className="text-red-600 text-xs m-0">
+                  Layout failed: {layoutError}
+                </p>
+              )}
+              {splitError && (
+                <p className="text-red-600 text-xs m-0">
+                  Split failed: {splitError}
+                </p>
+              )}
+              {pngError && (
+                <p className="text-red-600 text-xs m-0">
+                  PNG export failed: {pngError}
+                </p>
+              )}
+              {splitTracePasses.map(({ pass, region, clippedCount }) => (
+                <p
+                  key={region}
+                  style={{ margin: 0, fontSize: "12px", color: "#666" }}
+                >
+                  Split trace
+                  {wrapLayoutShapes.length > 1
+                    ? `, region ${region + 1}`
+                    : ""}{" "}
+                  ({pass.axis === "y" ? "rows" : "columns"}): {pass.rows.length}{" "}
+                  detected, {pass.rows.filter((r) => r.breakReason).length}{" "}
+                  breaks • leftover per slide:{" "}
+                  {pass.slides
+                    .map((slide, i) => `${i + 1}: ${slide.leftoverSize}px`)
+                    .join(", ")}
+                  {clippedCount > 0 &&
+                    ` • ${clippedCount} cut off at the footer (reflow to fit them)`}
+                </p>
+              ))}
+              {styleDiagnostics && styleDiagnostics.length > 0 && (
+                <ul style={{ margin: 0, fontSize: "12px", color: "#b45309" }}>
+                  {styleDiagnostics.slice(0, 20).map((d, i) => (
+                    <li key={i}>
+                      {d.boxId}: <code>{d.property}</code> declared{" "}
+                      <code>{d.declared}</code>,{" "}
+                      {d.reason === "invalid" ? (
+                        "dropped as invalid"
+                      ) : (
+                        <>
+                          computed <code>{d.computed}</code>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {Object.keys(cssOverrides).length > 0 && (
+                <div style={{ fontSize: "12px", color: "#000" }}>
+                  <strong>CSS overrides</strong>{" "}
+                  <button
+                    className="px-2 border border-gray-400 text-gray-700 hover:bg-gray-50 rounded"
+                    onClick={() => setCssOverrides({})}
+                  >
+                    Clear all
+                  </button>
+                  <ul style={{ margin: 0 }}>
+                    {Object.entries(cssOverrides).map(([id, css]) => (
+                      <li key={id}>
+                        {id}: <code>{css}</code>{" "}
+                        <button
+                          className="px-2 border border-gray-400 text-gray-700 hover:bg-gray-50 rounded"
+                          onClick={() => setCssOverride(id, undefined)}
+                        >
+                          Clear
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           }
           footer={
@@ -509,6 +1473,45 @@ export function LayoutDemo() {
               <h3 style={{ marginTop: "20px", color: "#000" }}>
                 Positioned Shapes Data
               </h3>
+              <button
+                className="py-1 px-3 my-2 text-center border border-gray-400 text-gray-700 hover:bg-gray-50 rounded transition-colors text-sm"
+                onClick={downloadLayoutExport}
+                disabled={!positionedBox}
+              >
+                Download whiteboard import JSON
+              </button>{" "}
+              <button
+                className="py-1 px-3 my-2 text-center border border-gray-400 text-gray-700 hover:bg-gray-50 rounded transition-colors text-sm"
+                onClick={downloadSvg}
+                disabled={!positionedBox}
+              >
+                Download SVG
+              </button>
+              {enableSplitting && (
+                <div className="flex flex-wrap gap-2 my-2 text-sm">
+                  <button
+                    className="px-2 border border-gray-400 text-gray-700 hover:bg-gray-50 rounded"
+                    onClick={downloadPptx}
+                  >
+                    Download PPTX
+                  </button>
+                  <span>PNG per slide:</span>
+                  {positionedSplitSlides.children?.map((slide, i) => (
+                    <button
+                      key={slide.id}
+                      className="px-2 border border-gray-400 text-gray-700 hover:bg-gray-50 rounded"
+                      onClick={() => {
+                        setPngError(null);
+                        downloadSlidePng(i).catch((error: Error) =>
+                          setPngError(`slide ${i + 1}: ${error.message}`)
+                        );
+                      }}
+                    >
+                      {i + 1}
+                    </button>
+                  ))}
+                </div>
+              )}
               <pre
                 style={{
                   background: "#f8f9fa",
@@ -525,7 +1528,7 @@ export function LayoutDemo() {
             </div>
           }
         >
-          {enableSplitting ? (
+          {showSplitSlides ? (
             <>
               {positionedSplitSlides.children?.map((slide, i) => {
                 // HUMONGOUS assumption here that order will remain stable...
@@ -540,75 +1543,29 @@ export function LayoutDemo() {
                     />
                   )),
                   <Box box={slide} tagNumber={i} />,
-                  wrapLayoutShape ? (
+                  ...wrapLayoutShapes.map((shape) => (
                     <Box
                       box={getTranslatedBox(
                         //TODO: why not just have the wrapLayoutSHape hold onto the split items?
-                        { ...wrapLayoutShape, children: undefined },
+                        { ...shape, children: undefined },
                         [slide.x, slide.y]
                       )}
+                      key={shape.id}
                       tagNumber={i}
                     />
-                  ) : undefined,
+                  )),
                 ];
               })}
             </>
-          ) : (
+          ) : positionedBox ? (
             <Box box={positionedBox} tagNumber={1} />
-          )}
+          ) : undefined}
         </Whiteboard>
       </div>
     </div>
   );
 }
 
-function getBoxStyles(type: string) {
-  switch (type) {
-    case "Slide":
-      return {
-        className: "border-[3px] border-purple-600 shadow-lg bg-purple-50",
-        borderStyle: "solid" as const,
-        zIndex: 1,
-      };
-    case "Wrapping Row":
-      return {
-        className: "border-2 border-orange-500 shadow-md bg-orange-50",
-        borderStyle: "dashed" as const,
-        zIndex: 2,
-      };
-    case "Group Card":
-      return {
-        className: "border-2 border-blue-500 shadow-md bg-blue-50",
-        borderStyle: "solid" as const,
-        zIndex: 3,
-      };
-    case "Distinct Field Values":
-      return {
-        className: "border border-green-500 shadow-sm bg-green-50",
-        borderStyle: "dashed" as const,
-        zIndex: 4,
-      };
-    case "Card":
-      return {
-        className: "border border-gray-400 shadow-sm bg-white",
-        borderStyle: "solid" as const,
-        zIndex: 5,
-      };
-    case "Slides Container":
-      return {
-        className: "border-2 border-red-500 shadow-md bg-red-50",
-        borderStyle: "dotted" as const,
-        zIndex: 0,
-      };
-    default:
-      return {
-        className: "border border-gray-300 shadow-sm bg-white",
-        borderStyle: "solid" as const,
-        zIndex: 10,
-      };
-  }
-}
-
 function Box(props: { box: PositionedCanvasBox; tagNumber: number }) {
   const { box, tagNumber } = props;
   const styles = getBoxStyles(box.type ?? "");
@@ -630,8 +1587,32 @@ function Box(props: { box: PositionedCanvasBox; tagNumber: number }) {
         }}
         className={styles.className}
       >
-        {box.type ?? ""} {box.tag}
+        {box.text ? null : (
+          <>
+            {box.type ?? ""} {box.tag}
+            {box.continuationOf ? " (continued)" : ""}
+          </>
+        )}
       </div>
+      {box.text?.lines.map((line, i) => (
+        <div
+          key={i}
+          style={{
+            position: "absolute",
+            left: `${line.x}px`,
+            top: `${line.y}px`,
+            width: `${line.width}px`,
+            height: `${line.height}px`,
+            font: box.text!.font,
+            lineHeight: `${box.text!.lineHeight}px`,
+            whiteSpace: "pre",
+            pointerEvents: "none",
+            zIndex: styles.zIndex,
+          }}
+        >
+          {line.text}
+        </div>
+      ))}
       {box.children?.map((childBox, i) => (
         <Box key={childBox.id} box={childBox} tagNumber={tagNumber + i} />
       ))}
@@ -639,14 +1620,171 @@ function Box(props: { box: PositionedCanvasBox; tagNumber: number }) {
   );
 }
 
+type WhiteboardRenderer = "dom" | "canvas";
+
+interface WhiteboardBand {
+  key: string;
+  rect: LayoutRect;
+  color: string;
+  /**marks the band's leading edge as a break between slides */
+  breakEdge?: "top" | "left";
+  label: string;
+}
+
+/**mouse movement under this between press and release is a click, not a pan */
+const clickSlopPx = 4;
+
+/**the canvas's CSS size, kept up to date as the whiteboard resizes */
+function useCanvasSize(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      if (!entry) return;
+      setSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [canvasRef]);
+  return size;
+}
+
+/**matches the backing store to the CSS size and returns the pixel ratio */
+function fitCanvas(
+  canvas: HTMLCanvasElement,
+  size: { width: number; height: number }
+) {
+  const pixelRatio = window.devicePixelRatio || 1;
+  const width = Math.round(size.width * pixelRatio);
+  const height = Math.round(size.height * pixelRatio);
+  // resizing clears the canvas, so only do it when the size changed
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return pixelRatio;
+}
+
+const canvasLayerStyle: React.CSSProperties = {
+  position: "absolute",
+  inset: 0,
+  width: "100%",
+  height: "100%",
+};
+
+function WhiteboardCanvas(props: {
+  spatialIndex: SpatialIndex;
+  camera: Camera;
+  onDraw: (stats: CanvasDrawStats) => void;
+}) {
+  const { spatialIndex, camera, onDraw } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = useCanvasSize(canvasRef);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || size.width === 0) return;
+
+    // one draw per frame, however many camera updates arrive in it
+    const frame = requestAnimationFrame(() => {
+      const pixelRatio = fitCanvas(canvas, size);
+      onDraw(
+        drawCanvasScene({
+          context,
+          spatialIndex,
+          camera,
+          width: size.width,
+          height: size.height,
+          pixelRatio,
+        })
+      );
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [spatialIndex, camera.cameraX, camera.cameraY, camera.zoom, size, onDraw]);
+
+  return <canvas ref={canvasRef} style={canvasLayerStyle} />;
+}
+
+/**transparent layer over either renderer, drawing overlays for the boxes in view */
+function WhiteboardOverlayCanvas(props: {
+  spatialIndex: SpatialIndex;
+  overlays: LayoutOverlays;
+  camera: Camera;
+}) {
+  const { spatialIndex, overlays, camera } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = useCanvasSize(canvasRef);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || size.width === 0) return;
+
+    const frame = requestAnimationFrame(() => {
+      const pixelRatio = fitCanvas(canvas, size);
+      drawLayoutOverlays({
+        context,
+        // drawn bottom-up, so inner boxes' overlays land on top
+        boxes: spatialIndex
+          .queryRect(getVisibleWorldRect({ camera, ...size }))
+          .reverse(),
+        overlays,
+        camera,
+        width: size.width,
+        height: size.height,
+        pixelRatio,
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [
+    spatialIndex,
+    overlays,
+    camera.cameraX,
+    camera.cameraY,
+    camera.zoom,
+    size,
+  ]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ ...canvasLayerStyle, pointerEvents: "none", zIndex: 1 }}
+    />
+  );
+}
+
 function Whiteboard({
   top,
   children,
   footer,
+  renderer,
+  boxes,
+  inspector,
+  overlays,
+  onOverlaysChange,
+  bands,
 }: {
   top: React.ReactNode;
   footer: React.ReactNode;
   children: React.ReactNode;
+  renderer: WhiteboardRenderer;
+  /**
+   * the positioned trees on the whiteboard, in canvas space. The canvas renderer draws these
+   * (the DOM renderer draws `children`), and both hit-test against them.
+   */
+  boxes: PositionedCanvasBox[];
+  /**details shown under the selected box's id, type and geometry */
+  inspector: (box: PositionedCanvasBox) => React.ReactNode;
+  /**overlays need `boxes` laid out with `includeBoxModel` */
+  overlays: LayoutOverlays;
+  onOverlaysChange: (overlays: LayoutOverlays) => void;
+  /**translucent annotations in canvas space, drawn over either renderer */
+  bands?: WhiteboardBand[];
 }) {
   // Camera state for panning and zooming
   const [cameraX, setCameraX] = useState(0);
@@ -656,14 +1794,49 @@ function Whiteboard({
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(
     null
   );
+  const [canvasStats, setCanvasStats] = useState<CanvasDrawStats | null>(null);
+  // hits are kept by slide and id rather than as boxes, so they survive a relayout
+  const [hoveredHit, setHoveredHit] = useState<BoxKey | null>(null);
+  const [selectedHit, setSelectedHit] = useState<BoxKey | null>(null);
+  // where the mouse went down, to tell a click from a pan
+  const pressStart = useRef<{ x: number; y: number } | null>(null);
+
+  const spatialIndex = useMemo(
+    () => createSpatialIndex({ roots: boxes }),
+    [boxes]
+  );
+  // looked up again in every new layout; a box that's gone drops the hit
+  const hoveredBox = hoveredHit ? spatialIndex.getBox(hoveredHit) : undefined;
+  const selectedBox = selectedHit
+    ? spatialIndex.getBox(selectedHit)
+    : undefined;
+
+  const getHitAt = (e: React.MouseEvent) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const worldX = (e.clientX - rect.left - cameraX) / zoom;
+    const worldY = (e.clientY - rect.top - cameraY) / zoom;
+    const box = spatialIndex.queryPoint(worldX, worldY).at(0);
+    return (box && spatialIndex.getKey(box)) ?? null;
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     setIsDragging(true);
     setDragStart({ x: e.clientX, y: e.clientY });
+    pressStart.current = { x: e.clientX, y: e.clientY };
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !dragStart) return;
+    if (!isDragging || !dragStart) {
+      const hit = getHitAt(e);
+      // the same box again keeps the state, so moving within it doesn't render
+      setHoveredHit((previous) =>
+        previous?.rootIndex === hit?.rootIndex && previous?.id === hit?.id
+          ? previous
+          : hit
+      );
+      return;
+    }
 
     const deltaX = e.clientX - dragStart.x;
     const deltaY = e.clientY - dragStart.y;
@@ -673,16 +1846,42 @@ function Whiteboard({
     setDragStart({ x: e.clientX, y: e.clientY });
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
     setIsDragging(false);
     setDragStart(null);
+    const start = pressStart.current;
+    pressStart.current = null;
+    if (
+      start &&
+      Math.hypot(e.clientX - start.x, e.clientY - start.y) < clickSlopPx
+    ) {
+      setSelectedHit(getHitAt(e));
+    }
   };
 
   const handleMouseLeave = () => {
     setIsDragging(false);
     setDragStart(null);
+    setHoveredHit(null);
+    pressStart.current = null;
   };
 
+  // screen-space outline over a box, drawn above either renderer
+  const outline = (box: PositionedCanvasBox, color: string, width: number) => (
+    <div
+      style={{
+        position: "absolute",
+        left: `${box.x * zoom + cameraX}px`,
+        top: `${box.y * zoom + cameraY}px`,
+        width: `${box.width * zoom}px`,
+        height: `${box.height * zoom}px`,
+        outline: `${width}px solid ${color}`,
+        pointerEvents: "none",
+        zIndex: 1,
+      }}
+    />
+  );
+
   const handleWheel = React.useCallback(
     (e: WheelEvent) => {
       e.preventDefault();
@@ -750,7 +1949,33 @@ function Whiteboard({
           <span style={{ fontSize: "12px", color: "#666" }}>
             Camera: X: {Math.round(cameraX)}, Y: {Math.round(cameraY)} | Zoom:{" "}
             {(zoom * 100).toFixed(0)}%
+            {renderer === "canvas" && canvasStats && (
+              <>
+                {" "}
+                | Drawn: {canvasStats.drawn}, culled: {canvasStats.culled}
+              </>
+            )}
           </span>
+          <label style={{ fontSize: "12px", color: "#000" }}>
+            <input
+              type="checkbox"
+              checked={overlays.boxModel}
+              onChange={(e) =>
+                onOverlaysChange({ ...overlays, boxModel: e.target.checked })
+              }
+            />{" "}
+            Box model
+          </label>
+          <label style={{ fontSize: "12px", color: "#000" }}>
+            <input
+              type="checkbox"
+              checked={overlays.flexLines}
+              onChange={(e) =>
+                onOverlaysChange({ ...overlays, flexLines: e.target.checked })
+              }
+            />{" "}
+            Flex lines
+          </label>
           <button
             onClick={resetCamera}
             style={{
@@ -787,18 +2012,71 @@ function Whiteboard({
         }}
       >
         {/* Whiteboard - the infinite canvas */}
-        <div
-          style={{
-            position: "absolute",
-            transform: `translate(${cameraX}px, ${cameraY}px) scale(${zoom})`,
-            transformOrigin: "0 0",
-            transition: isDragging ? "none" : "transform 0.1s ease-out",
-          }}
-        >
-          {children}
-        </div>
+        {renderer === "canvas" ? (
+          <WhiteboardCanvas
+            spatialIndex={spatialIndex}
+            camera={{ cameraX, cameraY, zoom }}
+            onDraw={setCanvasStats}
+          />
+        ) : (
+          <div
+            style={{
+              position: "absolute",
+              transform: `translate(${cameraX}px, ${cameraY}px) scale(${zoom})`,
+              transformOrigin: "0 0",
+              transition: isDragging ? "none" : "transform 0.1s ease-out",
+            }}
+          >
+            {children}
+          </div>
+        )}
+        {(overlays.boxModel || overlays.flexLines) && (
+          <WhiteboardOverlayCanvas
+            spatialIndex={spatialIndex}
+            overlays={overlays}
+            camera={{ cameraX, cameraY, zoom }}
+          />
+        )}
+        {bands?.map((band) => (
+          <div
+            key={band.key}
+            title={band.label}
+            style={{
+              position: "absolute",
+              left: `${band.rect.x * zoom + cameraX}px`,
+              top: `${band.rect.y * zoom + cameraY}px`,
+              width: `${band.rect.width * zoom}px`,
+              height: `${band.rect.height * zoom}px`,
+              background: band.color,
+              [band.breakEdge === "left" ? "borderLeft" : "borderTop"]:
+                band.breakEdge ? "2px solid #dc2626" : undefined,
+              fontSize: "11px",
+              color: band.breakEdge ? "#dc2626" : "#374151",
+              overflow: "hidden",
+              whiteSpace: "nowrap",
+              pointerEvents: "none",
+              zIndex: 1,
+            }}
+          >
+            {band.label}
+          </div>
+        ))}
+        {hoveredBox &&
+          hoveredBox !== selectedBox &&
+          outline(hoveredBox, "#60a5fa", 1)}
+        {selectedBox && outline(selectedBox, "#f59e0b", 2)}
       </div>
 
+      {selectedBox && (
+        <div style={{ marginTop: "10px", fontSize: "12px", color: "#000" }}>
+          <strong>{selectedBox.id}</strong> • {selectedBox.type}
+          {selectedBox.tag !== undefined && <> • tag {selectedBox.tag}</>} • x:{" "}
+          {selectedBox.x}, y: {selectedBox.y}, width: {selectedBox.width},
+          height: {selectedBox.height}
+          {inspector(selectedBox)}
+        </div>
+      )}
+
       {footer}
     </div>
   );
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { getFlexLinesFromItems } from "@/boxModel";
+import {
+  flattenPositionedBox,
+  getPositionedBoxes,
+  type Box,
+} from "@/layoutEngine";
+import { getPresetFixture } from "@/layoutFixtures";
+
+/**lays out one card in a 400px wide slide with 10px of padding, and returns the card */
+function getSolvedCard(cardCss: string) {
+  const rootBox: Box = {
+    id: "slide",
+    type: "Slide",
+    css: "width: 400px; height: 300px; display: flex; padding: 10px;",
+    children: [{ id: "card", type: "Card", css: cardCss }],
+  };
+  return getPositionedBoxes({
+    rootBox,
+    backend: "solver",
+    includeBoxModel: true,
+  }).children![0];
+}
+
+describe("solver box model", () => {
+  test("nests the margin, border, padding and content rects around the border box", () => {
+    const card = getSolvedCard(
+      "width: 100px; height: 60px; margin: 5px 6px 7px 8px; border-width: 2px 3px 4px 1px; padding: 10px 20px 30px 40px;"
+    );
+    expect({ x: card.x, y: card.y }).toEqual({ x: 18, y: 15 });
+    expect(card.boxModel).toEqual({
+      margin: { x: 10, y: 10, width: 8 + 100 + 6, height: 5 + 60 + 7 },
+      border: { x: 18, y: 15, width: 100, height: 60 },
+      padding: { x: 19, y: 17, width: 100 - 1 - 3, height: 60 - 2 - 4 },
+      content: { x: 59, y: 27, width: 96 - 40 - 20, height: 54 - 10 - 30 },
+    });
+  });
+
+  test("shrinks the margin rect for negative margins", () => {
+    const card = getSolvedCard(
+      "width: 50px; height: 75px; margin-left: -20px; margin-top: -8px;"
+    );
+    expect(card.boxModel!.border).toEqual({
+      x: -10,
+      y: 2,
+      width: 50,
+      height: 75,
+    });
+    expect(card.boxModel!.margin).toEqual({
+      x: 10,
+      y: 10,
+      width: 30,
+      height: 67,
+    });
+  });
+
+  test("resolves percentage padding against the containing block's width", () => {
+    const card = getSolvedCard("width: 200px; height: 100px; padding: 5%;");
+    // 5% of the slide's 380px content width, on every side
+    expect(card.boxModel!.content).toEqual({
+      x: 10 + 19,
+      y: 10 + 19,
+      width: 200 - 38,
+      height: 100 - 38,
+    });
+  });
+
+  test("reports the lines of a wrapping flex container", () => {
+    const wrappingRow = getPositionedBoxes({
+      rootBox: getPresetFixture({ preset: "flexRow" }),
+      backend: "solver",
+      includeBoxModel: true,
+    }).children![0];
+    const { content, flexLines } = wrappingRow.boxModel!;
+    const items = wrappingRow.children!.map((child) => child.boxModel!.margin);
+
+    expect(flexLines!.length).toBeGreaterThan(1);
+    flexLines!.forEach((line, i) => {
+      // each line spans the main axis of the content box, one row gap after the last
+      expect(line.x).toBe(content.x);
+      expect(line.width).toBe(content.width);
+      expect(line.y).toBe(
+        i === 0
+          ? content.y
+          : flexLines![i - 1].y + flexLines![i - 1].height + 10
+      );
+    });
+    for (const item of items) {
+      const linesHolding = flexLines!.filter(
+        (line) =>
+          item.y >= line.y && item.y + item.height <= line.y + line.height
+      );
+      expect(linesHolding.length).toBe(1);
+    }
+
+    // the lines the DOM backend derives from where the items landed
+    expect(
+      getFlexLinesFromItems({
+        content,
+        items,
+        isRow: true,
+        isMainReversed: false,
+        isSingleLine: false,
+      })
+    ).toEqual(flexLines!);
+  });
+
+  test("gives every box a border rect matching its own", () => {
+    const positioned = getPositionedBoxes({
+      rootBox: getPresetFixture({ preset: "flexColumn" }),
+      backend: "solver",
+      includeBoxModel: true,
+    });
+    for (const box of flattenPositionedBox(positioned)) {
+      expect(box.boxModel!.border).toEqual({
+        x: box.x,
+        y: box.y,
+        width: box.width,
+        height: box.height,
+      });
+    }
+  });
+});
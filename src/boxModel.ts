@@ -0,0 +1,138 @@
+/**
+ * Resolved CSS box model of positioned boxes
+ *
+ * Both layout backends can report, per box, the margin, border, padding and content rects the
+ * box was laid out with, plus the flex lines of flex containers. The rects share the canvas
+ * space of the `PositionedCanvasBox`, whose own rect is the border box.
+ */
+
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BoxEdges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface BoxModel {
+  /**grows by the margins, or shrinks when they're negative */
+  margin: LayoutRect;
+  border: LayoutRect;
+  padding: LayoutRect;
+  content: LayoutRect;
+  /**flex containers only, in line order: each line's cross extent across the content box */
+  flexLines?: LayoutRect[];
+}
+
+function inset(rect: LayoutRect, edges: BoxEdges): LayoutRect {
+  return {
+    x: rect.x + edges.left,
+    y: rect.y + edges.top,
+    width: Math.max(0, rect.width - edges.left - edges.right),
+    height: Math.max(0, rect.height - edges.top - edges.bottom),
+  };
+}
+
+export function getBoxModel(args: {
+  border: LayoutRect;
+  margin: BoxEdges;
+  borderWidth: BoxEdges;
+  padding: BoxEdges;
+}): BoxModel {
+  const { border, margin, borderWidth, padding } = args;
+  const paddingRect = inset(border, borderWidth);
+  return {
+    margin: {
+      x: border.x - margin.left,
+      y: border.y - margin.top,
+      width: border.width + margin.left + margin.right,
+      height: border.height + margin.top + margin.bottom,
+    },
+    border: {
+      x: border.x,
+      y: border.y,
+      width: border.width,
+      height: border.height,
+    },
+    padding: paddingRect,
+    content: inset(paddingRect, padding),
+  };
+}
+
+/**
+ * groups flex items into lines from where they landed, for layouts that don't expose their
+ * lines (the DOM). A line ends where the next item starts back towards the main-start edge.
+ * Line extents come from the items' margin boxes, so they don't include space added by
+ * `align-content: stretch`.
+ */
+export function getFlexLinesFromItems(args: {
+  content: LayoutRect;
+  /**margin boxes of the items, in document order */
+  items: LayoutRect[];
+  isRow: boolean;
+  isMainReversed: boolean;
+  isSingleLine: boolean;
+}): LayoutRect[] {
+  const { content, items, isRow, isMainReversed, isSingleLine } = args;
+  const mainStart = (r: LayoutRect) =>
+    isMainReversed
+      ? -(isRow ? r.x + r.width : r.y + r.height)
+      : isRow
+      ? r.x
+      : r.y;
+
+  const lines: LayoutRect[][] = [];
+  items.forEach((item, i) => {
+    const previous = items[i - 1];
+    const line = lines.at(-1);
+    if (
+      !line ||
+      (!isSingleLine && previous && mainStart(item) < mainStart(previous))
+    ) {
+      lines.push([item]);
+    } else {
+      line.push(item);
+    }
+  });
+
+  return lines.map((line) => {
+    const crossStart = Math.min(...line.map((r) => (isRow ? r.y : r.x)));
+    const crossEnd = Math.max(
+      ...line.map((r) => (isRow ? r.y + r.height : r.x + r.width))
+    );
+    return isRow
+      ? {
+          x: content.x,
+          y: crossStart,
+          width: content.width,
+          height: crossEnd - crossStart,
+        }
+      : {
+          x: crossStart,
+          y: content.y,
+          width: crossEnd - crossStart,
+          height: content.height,
+        };
+  });
+}
+
+export function translateBoxModel(
+  boxModel: BoxModel,
+  dx: number,
+  dy: number
+): BoxModel {
+  const move = (r: LayoutRect) => ({ ...r, x: r.x + dx, y: r.y + dy });
+  return {
+    margin: move(boxModel.margin),
+    border: move(boxModel.border),
+    padding: move(boxModel.padding),
+    content: move(boxModel.content),
+    flexLines: boxModel.flexLines?.map(move),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Per-type box styling, shared by the demo's div renderer and the SVG export. The class
+ * names and colors describe the same look, since SVG can't use Tailwind classes.
+ */
+
+import type { BoxType } from "@/layoutEngine";
+
+export interface BoxStyle {
+  className: string;
+  borderStyle: "solid" | "dashed" | "dotted";
+  zIndex: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+}
+
+export function getBoxStyles(type: BoxType | string): BoxStyle {
+  switch (type) {
+    case "Slide":
+      return {
+        className: "border-[3px] border-purple-600 shadow-lg bg-purple-50",
+        borderStyle: "solid",
+        zIndex: 1,
+        fill: "#faf5ff",
+        stroke: "#9333ea",
+        strokeWidth: 3,
+      };
+    case "Wrapping Row":
+      return {
+        className: "border-2 border-orange-500 shadow-md bg-orange-50",
+        borderStyle: "dashed",
+        zIndex: 2,
+        fill: "#fff7ed",
+        stroke: "#f97316",
+        strokeWidth: 2,
+      };
+    case "Group Card":
+      return {
+        className: "border-2 border-blue-500 shadow-md bg-blue-50",
+        borderStyle: "solid",
+        zIndex: 3,
+        fill: "#eff6ff",
+        stroke: "#3b82f6",
+        strokeWidth: 2,
+      };
+    case "Distinct Field Values":
+      return {
+        className: "border border-green-500 shadow-sm bg-green-50",
+        borderStyle: "dashed",
+        zIndex: 4,
+        fill: "#f0fdf4",
+        stroke: "#22c55e",
+        strokeWidth: 1,
+      };
+    case "Card":
+      return {
+        className: "border border-gray-400 shadow-sm bg-white",
+        borderStyle: "solid",
+        zIndex: 5,
+        fill: "#ffffff",
+        stroke: "#9ca3af",
+        strokeWidth: 1,
+      };
+    case "Slides Container":
+      return {
+        className: "border-2 border-red-500 shadow-md bg-red-50",
+        borderStyle: "dotted",
+        zIndex: 0,
+        fill: "#fef2f2",
+        stroke: "#ef4444",
+        strokeWidth: 2,
+      };
+    case "Slide Chrome":
+      return {
+        className: "border border-slate-400 bg-slate-100",
+        borderStyle: "solid",
+        zIndex: 6,
+        fill: "#f1f5f9",
+        stroke: "#94a3b8",
+        strokeWidth: 1,
+      };
+    case "Regions":
+      return {
+        className: "border border-dashed border-amber-500 bg-amber-50",
+        borderStyle: "dashed",
+        zIndex: 1,
+        fill: "#fffbeb",
+        stroke: "#f59e0b",
+        strokeWidth: 1,
+      };
+    default:
+      return {
+        className: "border border-gray-300 shadow-sm bg-white",
+        borderStyle: "solid",
+        zIndex: 10,
+        fill: "#ffffff",
+        stroke: "#d1d5db",
+        strokeWidth: 1,
+      };
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Canvas 2D renderer for positioned boxes
+ *
+ * The whiteboard's DOM renderer mounts a div per box, which stops panning smoothly long
+ * before the layout engine runs out of boxes. This draws the same look to one canvas, asking
+ * the spatial index for just the boxes in the camera's view, and drops detail (labels, text
+ * lines, borders) as boxes get too small on screen to read.
+ */
+
+import type { PositionedCanvasBox } from "@/layoutEngine";
+import type { LayoutRect } from "@/boxModel";
+import { getBoxStyles } from "@/boxStyles";
+import type { SpatialIndex } from "@/spatialIndex";
+
+/**the whiteboard's camera: screen = world * zoom + camera */
+export interface Camera {
+  cameraX: number;
+  cameraY: number;
+  zoom: number;
+}
+
+export interface CanvasDrawStats {
+  drawn: number;
+  culled: number;
+}
+
+/**on-screen sizes below which detail is skipped */
+const minLabelFontPx = 6;
+const minTextLinePx = 4;
+const minStrokedBoxPx = 3;
+
+const labelFontSize = 12;
+
+const dashPatterns = {
+  solid: () => [],
+  dashed: (width: number) => [width * 3, width * 2],
+  dotted: (width: number) => [width, width],
+};
+
+/**the world-space rect the camera sees */
+export function getVisibleWorldRect(args: {
+  camera: Camera;
+  width: number;
+  height: number;
+}) {
+  const { camera, width, height } = args;
+  return {
+    x: -camera.cameraX / camera.zoom,
+    y: -camera.cameraY / camera.zoom,
+    width: width / camera.zoom,
+    height: height / camera.zoom,
+  };
+}
+
+function drawBox(
+  context: CanvasRenderingContext2D,
+  box: PositionedCanvasBox,
+  zoom: number
+) {
+  const style = getBoxStyles(box.type);
+  const { strokeWidth } = style;
+  const isTiny =
+    Math.min(box.width, box.height) * zoom < minStrokedBoxPx ||
+    strokeWidth * zoom < 0.5;
+
+  // at this size the border is all you'd see, so it stands in for the box
+  if (isTiny) {
+    context.fillStyle = style.stroke;
+    context.fillRect(box.x, box.y, box.width, box.height);
+    return;
+  }
+
+  context.fillStyle = style.fill;
+  context.fillRect(box.x, box.y, box.width, box.height);
+
+  // borders are drawn inside the box, like the border-box divs
+  context.strokeStyle = style.stroke;
+  context.lineWidth = strokeWidth;
+  context.setLineDash(dashPatterns[style.borderStyle](strokeWidth));
+  context.strokeRect(
+    box.x + strokeWidth / 2,
+    box.y + strokeWidth / 2,
+    Math.max(0, box.width - strokeWidth),
+    Math.max(0, box.height - strokeWidth)
+  );
+
+  context.fillStyle = "#000000";
+  if (box.text) {
+    const { font, lineHeight, lines } = box.text;
+    if (lineHeight * zoom < minTextLinePx) return;
+    context.font = font;
+    context.textBaseline = "middle";
+    for (const line of lines) {
+      context.fillText(line.text, line.x, line.y + lineHeight / 2);
+    }
+    return;
+  }
+
+  if (labelFontSize * zoom < minLabelFontPx) return;
+  context.font = `${labelFontSize}px sans-serif`;
+  context.textBaseline = "alphabetic";
+  context.fillText(
+    `${box.type} ${box.tag ?? ""}${
+      box.continuationOf ? " (continued)" : ""
+    }`.trim(),
+    box.x + strokeWidth + 2,
+    box.y + strokeWidth + labelFontSize
+  );
+}
+
+function setCameraTransform(
+  context: CanvasRenderingContext2D,
+  camera: Camera,
+  pixelRatio: number
+) {
+  context.setTransform(
+    pixelRatio * camera.zoom,
+    0,
+    0,
+    pixelRatio * camera.zoom,
+    pixelRatio * camera.cameraX,
+    pixelRatio * camera.cameraY
+  );
+}
+
+/**clears the canvas and draws the boxes that intersect the camera's view, without walking the rest */
+export function drawCanvasScene(args: {
+  context: CanvasRenderingContext2D;
+  /**the boxes to draw */
+  spatialIndex: SpatialIndex;
+  camera: Camera;
+  /**canvas size in CSS px */
+  width: number;
+  height: number;
+  /**device pixels per CSS px */
+  pixelRatio?: number;
+  background?: string;
+}): CanvasDrawStats {
+  const {
+    context,
+    spatialIndex,
+    camera,
+    width,
+    height,
+    pixelRatio = 1,
+    background = "#ffffff",
+  } = args;
+
+  context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  context.fillStyle = background;
+  context.fillRect(0, 0, width, height);
+  setCameraTransform(context, camera, pixelRatio);
+
+  // drawn bottom-up, the same order as the divs stack in
+  const visibleBoxes = spatialIndex
+    .queryRect(getVisibleWorldRect({ camera, width, height }))
+    .reverse();
+  for (const box of visibleBoxes) {
+    drawBox(context, box, camera.zoom);
+  }
+  return {
+    drawn: visibleBoxes.length,
+    culled: spatialIndex.size - visibleBoxes.length,
+  };
+}
+
+/**which devtools-style overlays to draw over the boxes */
+export interface LayoutOverlays {
+  /**margin, border, padding and content areas */
+  boxModel: boolean;
+  flexLines: boolean;
+}
+
+// the browser devtools' box model colors
+const overlayColors = {
+  margin: "rgba(246, 178, 107, 0.5)",
+  border: "rgba(255, 229, 153, 0.5)",
+  padding: "rgba(147, 196, 125, 0.5)",
+  content: "rgba(111, 168, 220, 0.9)",
+  flexLine: "#a855f7",
+};
+
+/**fills the area between two rects. Even-odd filling also covers negative margins */
+function fillBetween(
+  context: CanvasRenderingContext2D,
+  outer: LayoutRect,
+  inner: LayoutRect,
+  color: string
+) {
+  context.beginPath();
+  context.rect(outer.x, outer.y, outer.width, outer.height);
+  context.rect(inner.x, inner.y, inner.width, inner.height);
+  context.fillStyle = color;
+  context.fill("evenodd");
+}
+
+/**
+ * draws overlays for boxes laid out with `includeBoxModel`, over a transparent canvas, so they
+ * sit on top of either renderer. Boxes without a box model are skipped.
+ */
+export function drawLayoutOverlays(args: {
+  context: CanvasRenderingContext2D;
+  /**only the boxes to draw; overlays don't cull */
+  boxes: PositionedCanvasBox[];
+  overlays: LayoutOverlays;
+  camera: Camera;
+  width: number;
+  height: number;
+  pixelRatio?: number;
+}) {
+  const {
+    context,
+    boxes,
+    overlays,
+    camera,
+    width,
+    height,
+    pixelRatio = 1,
+  } = args;
+
+  context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  context.clearRect(0, 0, width, height);
+  setCameraTransform(context, camera, pixelRatio);
+
+  // a constant on-screen width, however far out the camera is
+  const lineWidth = 1 / camera.zoom;
+  context.lineWidth = lineWidth;
+
+  for (const { boxModel } of boxes) {
+    if (!boxModel) continue;
+    if (overlays.boxModel) {
+      const { margin, border, padding, content } = boxModel;
+      fillBetween(context, margin, border, overlayColors.margin);
+      fillBetween(context, border, padding, overlayColors.border);
+      fillBetween(context, padding, content, overlayColors.padding);
+      // outlined rather than filled, since content boxes nest and fills would stack up
+      context.strokeStyle = overlayColors.content;
+      context.setLineDash([]);
+      context.strokeRect(content.x, content.y, content.width, content.height);
+    }
+    if (overlays.flexLines && boxModel.flexLines) {
+      context.strokeStyle = overlayColors.flexLine;
+      context.setLineDash([lineWidth * 4, lineWidth * 3]);
+      for (const line of boxModel.flexLines) {
+        context.strokeRect(line.x, line.y, line.width, line.height);
+      }
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Per-box CSS overrides
+ *
+ * A patch of declarations keyed by box id, layered over a generated `Box` tree. Override
+ * declarations are appended to the box's own CSS, so they win where both set a property and
+ * leave the rest alone.
+ */
+
+import type { Box } from "@/layoutEngine";
+
+/**box id to CSS declarations */
+export type CssOverrides = Record<string, string>;
+
+/**
+ * returns the tree with overrides applied. Subtrees without overrides are returned as is, so
+ * incremental layouts only see the overridden boxes change.
+ */
+export function applyCssOverrides(args: {
+  rootBox: Box;
+  overrides: CssOverrides;
+}): Box {
+  const { rootBox, overrides } = args;
+  if (Object.keys(overrides).length === 0) {
+    return rootBox;
+  }
+
+  const apply = (box: Box): Box => {
+    const children = box.children?.map(apply);
+    const override = overrides[box.id];
+    const childrenChanged = children?.some((c, i) => c !== box.children![i]);
+    if (!override && !childrenChanged) {
+      return box;
+    }
+    return {
+      ...box,
+      css: override ? [box.css, override].filter(Boolean).join("; ") : box.css,
+      children,
+    };
+  };
+  return apply(rootBox);
+}
+
+/**the id an override for this box is stored under; split fragments share their source's */
+export function getOverrideId(box: { id: string; continuationOf?: string }) {
+  return box.continuationOf ?? box.id;
+}
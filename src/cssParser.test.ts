@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { getDefaultBoxCss, parseBoxCss } from "@/cssParser";
+
+describe("parseBoxCss", () => {
+  test("applies longhands over shorthands in source order", () => {
+    const parsed = parseBoxCss("padding: 25px; padding-top: 40px");
+    expect(parsed.padding.top).toEqual({ unit: "px", value: 40 });
+    expect(parsed.padding.left).toEqual({ unit: "px", value: 25 });
+  });
+
+  // an invalid declaration is dropped, so an earlier valid one still applies
+  test("ignores invalid flex alignments", () => {
+    const parsed = parseBoxCss(
+      "justify-content: center; align-content: space-between; align-items: flex-end; align-self: center; " +
+        "justify-content: bogus; align-content: bogus; align-items: bogus; align-self: bogus"
+    );
+    expect(parsed.justifyContent).toBe("center");
+    expect(parsed.alignContent).toBe("space-between");
+    expect(parsed.alignItems).toBe("flex-end");
+    expect(parsed.alignSelf).toBe("center");
+
+    const defaults = getDefaultBoxCss();
+    const invalidOnly = parseBoxCss(
+      "justify-content: bogus; align-content: 1px; align-items: left; align-self: 2"
+    );
+    expect(invalidOnly.justifyContent).toBe(defaults.justifyContent);
+    expect(invalidOnly.alignContent).toBe(defaults.alignContent);
+    expect(invalidOnly.alignItems).toBe(defaults.alignItems);
+    expect(invalidOnly.alignSelf).toBe(defaults.alignSelf);
+  });
+
+  test("ignores invalid grid alignments and template areas", () => {
+    const parsed = parseBoxCss(
+      `justify-items: center; justify-self: end; grid-template-areas: "a b" "c d"; ` +
+        `justify-items: bogus; justify-self: bogus; grid-template-areas: "a b" "c"`
+    );
+    expect(parsed.justifyItems).toBe("center");
+    expect(parsed.justifySelf).toBe("flex-end");
+    expect(parsed.gridTemplateAreas).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+
+    expect(
+      parseBoxCss(`grid-template-areas: "a b"; grid-template-areas: none`)
+        .gridTemplateAreas
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * Parser for the subset of CSS that our `Box.css` strings use.
+ *
+ * Declarations are applied in source order into longhand properties, so
+ * `padding: 25px; padding-top: 40px` behaves the same as it does in the browser.
+ * Anything we don't understand is ignored, like an invalid declaration would be.
+ */
+
+export type CssLength =
+  | { unit: "px"; value: number }
+  | { unit: "%"; value: number }
+  | { unit: "auto" };
+
+export type CssSides<T> = {
+  top: T;
+  right: T;
+  bottom: T;
+  left: T;
+};
+
+export type FlexDirection = "row" | "row-reverse" | "column" | "column-reverse";
+export type FlexWrap = "nowrap" | "wrap" | "wrap-reverse";
+export type ContentAlignment =
+  | "flex-start"
+  | "flex-end"
+  | "center"
+  | "space-between"
+  | "space-around"
+  | "space-evenly"
+  | "stretch";
+export type ItemAlignment = "flex-start" | "flex-end" | "center" | "stretch";
+
+export type GridTrackSize =
+  | CssLength
+  /**flexible tracks, e.g. `1fr` */
+  | { unit: "fr"; value: number };
+
+/**a grid-row or grid-column placement, in 1-based grid lines */
+export type GridLineRange = {
+  start?: number;
+  end?: number;
+  span?: number;
+};
+
+export interface ParsedBoxCss {
+  display: "block" | "flex" | "grid";
+  width: CssLength;
+  height: CssLength;
+  minWidth: CssLength;
+  minHeight: CssLength;
+  /**`auto` stands in for `none` */
+  maxWidth: CssLength;
+  maxHeight: CssLength;
+  margin: CssSides<CssLength>;
+  padding: CssSides<CssLength>;
+  borderWidth: CssSides<number>;
+  rowGap: CssLength;
+  columnGap: CssLength;
+  flexDirection: FlexDirection;
+  flexWrap: FlexWrap;
+  flexGrow: number;
+  flexShrink: number;
+  flexBasis: CssLength;
+  justifyContent: ContentAlignment;
+  alignItems: ItemAlignment;
+  /**`auto` defers to the parent's `align-items` */
+  alignSelf: ItemAlignment | "auto";
+  alignContent: ContentAlignment;
+  gridTemplateColumns: GridTrackSize[];
+  gridTemplateRows: GridTrackSize[];
+  gridAutoColumns: GridTrackSize;
+  gridAutoRows: GridTrackSize;
+  /**rows of area names from grid-template-areas, with "." for unnamed cells */
+  gridTemplateAreas: string[][] | null;
+  /**named area from grid-area, when it isn't given as grid lines */
+  gridAreaName?: string;
+  gridRow: GridLineRange;
+  gridColumn: GridLineRange;
+  justifyItems: ItemAlignment;
+  /**`auto` defers to the parent's `justify-items` */
+  justifySelf: ItemAlignment | "auto";
+}
+
+const AUTO: CssLength = { unit: "auto" };
+const ZERO: CssLength = { unit: "px", value: 0 };
+
+function sides<T>(value: T): CssSides<T> {
+  return { top: value, right: value, bottom: value, left: value };
+}
+
+export function getDefaultBoxCss(): ParsedBoxCss {
+  return {
+    display: "block",
+    width: AUTO,
+    height: AUTO,
+    minWidth: AUTO,
+    minHeight: AUTO,
+    maxWidth: AUTO,
+    maxHeight: AUTO,
+    margin: sides(ZERO),
+    padding: sides(ZERO),
+    borderWidth: sides(0),
+    rowGap: ZERO,
+    columnGap: ZERO,
+    flexDirection: "row",
+    flexWrap: "nowrap",
+    flexGrow: 0,
+    flexShrink: 1,
+    flexBasis: AUTO,
+    justifyContent: "flex-start",
+    alignItems: "stretch",
+    alignSelf: "auto",
+    alignContent: "stretch",
+    gridTemplateColumns: [],
+    gridTemplateRows: [],
+    gridAutoColumns: AUTO,
+    gridAutoRows: AUTO,
+    gridTemplateAreas: null,
+    gridRow: {},
+    gridColumn: {},
+    justifyItems: "stretch",
+    justifySelf: "auto",
+  };
+}
+
+export function parseCssLength(raw: string): CssLength | null {
+  const value = raw.trim().toLowerCase();
+  if (value === "auto" || value === "none") {
+    return AUTO;
+  }
+  const match = /^(-?\d*\.?\d+)(px|%)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const amount = Number(match[1]);
+  if (match[2] === "%") {
+    return { unit: "%", value: amount };
+  }
+  // unitless lengths are only valid for zero
+  if (!match[2] && amount !== 0) {
+    return null;
+  }
+  return { unit: "px", value: amount };
+}
+
+/**expands the 1-4 value shorthand used by margin, padding and border-width */
+function parseSidesShorthand<T>(
+  raw: string,
+  parse: (token: string) => T | null
+): CssSides<T> | null {
+  const values = raw.trim().split(/\s+/).map(parse);
+  if (
+    values.length === 0 ||
+    values.length > 4 ||
+    values.some((v) => v === null)
+  ) {
+    return null;
+  }
+  const [top, right = top, bottom = top, left = right] = values as T[];
+  return { top, right, bottom, left };
+}
+
+function parseBorderWidth(raw: string): number | null {
+  const length = parseCssLength(raw);
+  return length?.unit === "px" ? length.value : null;
+}
+
+function normalizeContentAlignment(value: string): ContentAlignment | null {
+  switch (value) {
+    case "start":
+    case "left":
+    case "flex-start":
+      return "flex-start";
+    case "end":
+    case "right":
+    case "flex-end":
+      return "flex-end";
+    case "center":
+    case "space-between":
+    case "space-around":
+    case "space-evenly":
+    case "stretch":
+      return value;
+    default:
+      return null;
+  }
+}
+
+function normalizeItemAlignment(value: string): ItemAlignment | null {
+  switch (value) {
+    case "start":
+    case "self-start":
+    case "flex-start":
+    case "baseline":
+      return "flex-start";
+    case "end":
+    case "self-end":
+    case "flex-end":
+      return "flex-end";
+    case "center":
+    case "stretch":
+      return value;
+    case "normal":
+      return "stretch";
+    default:
+      return null;
+  }
+}
+
+function parseGridTrackSize(raw: string): GridTrackSize | null {
+  const value = raw.trim().toLowerCase();
+  const fr = /^(\d*\.?\d+)fr$/.exec(value);
+  if (fr) {
+    return { unit: "fr", value: Number(fr[1]) };
+  }
+  // min-content, max-content and fit-content() size to content like auto
+  if (/^(min-content|max-content|fit-content\(.*\))$/.test(value)) {
+    return AUTO;
+  }
+  // minmax(min, max) is sized by its max
+  const minmax = /^minmax\((.+),(.+)\)$/.exec(value);
+  if (minmax) {
+    return parseGridTrackSize(minmax[2]);
+  }
+  return parseCssLength(value);
+}
+
+/**splits on whitespace outside of parentheses */
+function splitTopLevel(value: string): string[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let token = "";
+  for (const char of value.trim()) {
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    if (/\s/.test(char) && depth === 0) {
+      if (token) tokens.push(token);
+      token = "";
+    } else {
+      token += char;
+    }
+  }
+  if (token) tokens.push(token);
+  return tokens;
+}
+
+/**e.g. "200px 1fr", "repeat(4, 1fr) 300px" */
+export function parseGridTrackList(value: string): GridTrackSize[] | null {
+  if (value.trim().toLowerCase() === "none") {
+    return [];
+  }
+  const tracks: GridTrackSize[] = [];
+  for (const token of splitTopLevel(value)) {
+    // line names like [header-start] don't affect sizing
+    if (token.startsWith("[")) continue;
+
+    const repeat = /^repeat\(\s*(\d+)\s*,(.+)\)$/i.exec(token);
+    if (repeat) {
+      const repeated = parseGridTrackList(repeat[2]);
+      if (!repeated) return null;
+      for (let i = 0; i < Number(repeat[1]); i++) {
+        tracks.push(...repeated);
+      }
+      continue;
+    }
+
+    const track = parseGridTrackSize(token);
+    if (!track) return null;
+    tracks.push(track);
+  }
+  return tracks;
+}
+
+/**e.g. `"title title" "cards legend"` */
+function parseGridTemplateAreas(value: string): string[][] | null {
+  const rows = [...value.matchAll(/"([^"]*)"|'([^']*)'/g)].map((m) =>
+    (m[1] ?? m[2]).trim().split(/\s+/)
+  );
+  if (rows.length === 0 || rows.some((r) => r.length !== rows[0].length)) {
+    return null;
+  }
+  return rows;
+}
+
+/**e.g. "2", "1 / 3", "span 2", "2 / span 2" */
+function parseGridLineRange(value: string): GridLineRange | null {
+  const parseLine = (raw: string) => {
+    const token = raw.trim().toLowerCase();
+    if (token === "auto") return {};
+    const span = /^span\s+(\d+)$/.exec(token);
+    if (span) return { span: Number(span[1]) };
+    if (/^-?\d+$/.test(token)) return { line: Number(token) };
+    return null;
+  };
+
+  const [rawStart, rawEnd = "auto"] = value.split("/");
+  const start = parseLine(rawStart);
+  const end = parseLine(rawEnd);
+  if (!start || !end) {
+    return null;
+  }
+  return {
+    start: "line" in start ? start.line : undefined,
+    end: "line" in end ? end.line : undefined,
+    span:
+      ("span" in start ? start.span : undefined) ??
+      ("span" in end ? end.span : undefined),
+  };
+}
+
+const SIDE_NAMES = ["top", "right", "bottom", "left"] as const;
+
+function applyDeclaration(
+  parsed: ParsedBoxCss,
+  property: string,
+  value: string
+) {
+  const lowerValue = value.toLowerCase();
+
+  for (const side of SIDE_NAMES) {
+    if (property === `margin-${side}`) {
+      const length = parseCssLength(value);
+      if (length) parsed.margin[side] = length;
+      return;
+    }
+    if (property === `padding-${side}`) {
+      const length = parseCssLength(value);
+      if (length && length.unit !== "auto") parsed.padding[side] = length;
+      return;
+    }
+    if (property === `border-${side}-width`) {
+      const width = parseBorderWidth(value);
+      if (width !== null) parsed.borderWidth[side] = width;
+      return;
+    }
+  }
+
+  switch (property) {
+    case "display":
+      parsed.display =
+        lowerValue === "flex" || lowerValue === "inline-flex"
+          ? "flex"
+          : lowerValue === "grid" || lowerValue === "inline-grid"
+          ? "grid"
+          : "block";
+      return;
+    case "width":
+    case "height":
+    case "min-width":
+    case "min-height":
+    case "max-width":
+    case "max-height":
+    case "flex-basis": {
+      const length = parseCssLength(value);
+      if (!length) return;
+      const key = (
+        {
+          width: "width",
+          height: "height",
+          "min-width": "minWidth",
+          "min-height": "minHeight",
+          "max-width": "maxWidth",
+          "max-height": "maxHeight",
+          "flex-basis": "flexBasis",
+        } as const
+      )[property];
+      parsed[key] = length;
+      return;
+    }
+    case "margin": {
+      const margin = parseSidesShorthand(value, parseCssLength);
+      if (margin) parsed.margin = margin;
+      return;
+    }
+    case "padding": {
+      const padding = parseSidesShorthand(value, parseCssLength);
+      if (padding && !SIDE_NAMES.some((s) => padding[s].unit === "auto")) {
+        parsed.padding = padding;
+      }
+      return;
+    }
+    case "border-width": {
+      const borderWidth = parseSidesShorthand(value, parseBorderWidth);
+      if (borderWidth) parsed.borderWidth = borderWidth;
+      return;
+    }
+    case "border": {
+      // only the width matters for layout, e.g. "1px solid red"
+      const width = value
+        .split(/\s+/)
+        .map(parseBorderWidth)
+        .find((w) => w !== null);
+      parsed.borderWidth = sides(width ?? 0);
+      return;
+    }
+    case "gap": {
+      const [rowGap, columnGap = rowGap] = value
+        .trim()
+        .split(/\s+/)
+        .map(parseCssLength);
+      if (rowGap && columnGap) {
+        parsed.rowGap = rowGap;
+        parsed.columnGap = columnGap;
+      }
+      return;
+    }
+    case "row-gap":
+    case "column-gap": {
+      const length = parseCssLength(value);
+      if (!length) return;
+      parsed[property === "row-gap" ? "rowGap" : "columnGap"] = length;
+      return;
+    }
+    case "flex-direction":
+      if (
+        ["row", "row-reverse", "column", "column-reverse"].includes(lowerValue)
+      ) {
+        parsed.flexDirection = lowerValue as FlexDirection;
+      }
+      return;
+    case "flex-wrap":
+      if (["nowrap", "wrap", "wrap-reverse"].includes(lowerValue)) {
+        parsed.flexWrap = lowerValue as FlexWrap;
+      }
+      return;
+    case "flex-flow":
+      lowerValue
+        .split(/\s+/)
+        .forEach((token) =>
+          applyDeclaration(
+            parsed,
+            token.includes("wrap") ? "flex-wrap" : "flex-direction",
+            token
+          )
+        );
+      return;
+    case "flex-grow":
+    case "flex-shrink": {
+      const factor = Number(value);
+      if (value.trim() === "" || isNaN(factor) || factor < 0) return;
+      parsed[property === "flex-grow" ? "flexGrow" : "flexShrink"] = factor;
+      return;
+    }
+    case "flex":
+      applyFlexShorthand(parsed, lowerValue.trim());
+      return;
+    case "justify-content": {
+      const alignment = normalizeContentAlignment(lowerValue);
+      if (!alignment) return;
+      // justify-content: stretch behaves as flex-start for flex containers
+      parsed.justifyContent =
+        alignment === "stretch" ? "flex-start" : alignment;
+      return;
+    }
+    case "align-content": {
+      const alignment = normalizeContentAlignment(lowerValue);
+      if (!alignment) return;
+      parsed.alignContent = alignment;
+      return;
+    }
+    case "align-items": {
+      const alignment = normalizeItemAlignment(lowerValue);
+      if (!alignment) return;
+      parsed.alignItems = alignment;
+      return;
+    }
+    case "align-self": {
+      const alignment =
+        lowerValue === "auto" ? "auto" : normalizeItemAlignment(lowerValue);
+      if (!alignment) return;
+      parsed.alignSelf = alignment;
+      return;
+    }
+    case "justify-items": {
+      const alignment = normalizeItemAlignment(lowerValue);
+      if (!alignment) return;
+      parsed.justifyItems = alignment;
+      return;
+    }
+    case "justify-self": {
+      const alignment =
+        lowerValue === "auto" ? "auto" : normalizeItemAlignment(lowerValue);
+      if (!alignment) return;
+      parsed.justifySelf = alignment;
+      return;
+    }
+    case "grid-template-columns":
+    case "grid-template-rows": {
+      const tracks = parseGridTrackList(value);
+      if (!tracks) return;
+      parsed[
+        property === "grid-template-columns"
+          ? "gridTemplateColumns"
+          : "gridTemplateRows"
+      ] = tracks;
+      return;
+    }
+    case "grid-auto-columns":
+    case "grid-auto-rows": {
+      const track = parseGridTrackSize(value);
+      if (!track) return;
+      parsed[
+        property === "grid-auto-columns" ? "gridAutoColumns" : "gridAutoRows"
+      ] = track;
+      return;
+    }
+    case "grid-template-areas": {
+      if (lowerValue.trim() === "none") {
+        parsed.gridTemplateAreas = null;
+        return;
+      }
+      const areas = parseGridTemplateAreas(value);
+      if (!areas) return;
+      parsed.gridTemplateAreas = areas;
+      return;
+    }
+    case "grid-row":
+    case "grid-column": {
+      const range = parseGridLineRange(value);
+      if (!range) return;
+      parsed[property === "grid-row" ? "gridRow" : "gridColumn"] = range;
+      return;
+    }
+    case "grid-area": {
+      // a single identifier names an area, otherwise it's row-start / column-start / row-end / column-end
+      if (/^[a-z_-][\w-]*$/i.test(value) && value.toLowerCase() !== "auto") {
+        parsed.gridAreaName = value;
+        parsed.gridRow = {};
+        parsed.gridColumn = {};
+        return;
+      }
+      const [
+        rowStart = "auto",
+        columnStart = "auto",
+        rowEnd = "auto",
+        columnEnd = "auto",
+      ] = value.split("/");
+      const gridRow = parseGridLineRange(`${rowStart} / ${rowEnd}`);
+      const gridColumn = parseGridLineRange(`${columnStart} / ${columnEnd}`);
+      if (!gridRow || !gridColumn) return;
+      parsed.gridAreaName = undefined;
+      parsed.gridRow = gridRow;
+      parsed.gridColumn = gridColumn;
+      return;
+    }
+  }
+}
+
+function applyFlexShorthand(parsed: ParsedBoxCss, value: string) {
+  if (value === "none") {
+    parsed.flexGrow = 0;
+    parsed.flexShrink = 0;
+    parsed.flexBasis = AUTO;
+    return;
+  }
+  if (value === "auto") {
+    parsed.flexGrow = 1;
+    parsed.flexShrink = 1;
+    parsed.flexBasis = AUTO;
+    return;
+  }
+
+  // e.g. "1", "1 0", "1 1 200px", "200px"
+  const factors: number[] = [];
+  let basis: CssLength = ZERO;
+  for (const token of value.split(/\s+/)) {
+    const length = parseCssLength(token);
+    if (/^\d*\.?\d+$/.test(token) && factors.length < 2) {
+      factors.push(Number(token));
+    } else if (length) {
+      basis = length;
+    }
+  }
+  parsed.flexGrow = factors[0] ?? 1;
+  parsed.flexShrink = factors[1] ?? 1;
+  parsed.flexBasis = basis;
+}
+
+export function parseBoxCss(css: string): ParsedBoxCss {
+  const parsed = getDefaultBoxCss();
+
+  for (const declaration of css.split(";")) {
+    const colonIndex = declaration.indexOf(":");
+    if (colonIndex === -1) continue;
+    const property = declaration.slice(0, colonIndex).trim().toLowerCase();
+    const value = declaration
+      .slice(colonIndex + 1)
+      .replace(/!important/i, "")
+      .trim();
+    if (!property || !value) continue;
+    applyDeclaration(parsed, property, value);
+  }
+
+  return parsed;
+}
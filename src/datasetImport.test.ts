@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { parseCsv } from "@/datasetImport";
+
+describe("parseCsv", () => {
+  test("reads quoted fields with delimiters, doubled quotes and line breaks", () => {
+    const { records } = parseCsv(
+      'name,note\n"Smith, Jane","said ""hi"""\n"Lee","two\nlines"\n'
+    );
+    expect(records).toEqual([
+      { name: "Smith, Jane", note: 'said "hi"' },
+      { name: "Lee", note: "two\nlines" },
+    ]);
+  });
+
+  test("throws when the file ends inside a quoted field", () => {
+    expect(() => parseCsv('name\n"open')).toThrow(/quoted field/);
+  });
+
+  test("detects semicolon and tab delimiters from the header", () => {
+    expect(parseCsv("a;b\n1;2").records).toEqual([{ a: 1, b: 2 }]);
+    expect(parseCsv("a\tb\n1,5\tx").records).toEqual([{ a: "1,5", b: "x" }]);
+  });
+
+  test("drops a byte order mark, CRLF line ends and blank lines", () => {
+    const { columns, records } = parseCsv(
+      "\uFEFFid,name\r\n1,a\r\n\r\n2,b\r\n"
+    );
+    expect(columns.map((c) => c.name)).toEqual(["id", "name"]);
+    expect(records).toEqual([
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+    ]);
+  });
+
+  test("infers column types from every value", () => {
+    const { columns, records } = parseCsv(
+      "count,done,label,mixed\n1.5,true,x,1\n-2,FALSE,y,two\n,,,\n"
+    );
+    expect(columns).toEqual([
+      { name: "count", type: "number" },
+      { name: "done", type: "boolean" },
+      { name: "label", type: "string" },
+      { name: "mixed", type: "string" },
+    ]);
+    expect(records[1]).toEqual({
+      count: -2,
+      done: false,
+      label: "y",
+      mixed: "two",
+    });
+    expect(records[2]).toEqual({
+      count: null,
+      done: null,
+      label: null,
+      mixed: null,
+    });
+  });
+
+  test("keeps zero-padded ids and ZIP codes as strings", () => {
+    const { columns, records } = parseCsv(
+      "id,zip,amount\n007,02134,0\n12,90210,0.5\n"
+    );
+    expect(columns.map((c) => c.type)).toEqual(["string", "string", "number"]);
+    expect(records[0]).toEqual({ id: "007", zip: "02134", amount: 0 });
+  });
+
+  test("gives blank and repeated headers distinct names", () => {
+    const { columns } = parseCsv("a,a,a (2),,a\n1,2,3,4,5");
+    expect(columns.map((c) => c.name)).toEqual([
+      "a",
+      "a (2)",
+      "a (2) (2)",
+      "Column 4",
+      "a (3)",
+    ]);
+  });
+});
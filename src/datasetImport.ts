@@ -0,0 +1,207 @@
+/**
+ * CSV and JSON dataset parsing
+ *
+ * Runs in the browser on dropped files. CSV follows RFC 4180 (quoted fields, doubled quotes,
+ * line breaks inside quotes) with a header row, and each column's type is inferred from all
+ * of its values.
+ */
+
+import type { DatasetRecord } from "@/templateCompiler";
+
+export type ColumnType = "number" | "boolean" | "string";
+
+export interface ParsedDataset {
+  columns: Array<{ name: string; type: ColumnType }>;
+  records: DatasetRecord[];
+}
+
+/**the most common of comma, semicolon and tab in the header line */
+function detectDelimiter(text: string) {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length
+      ? candidate
+      : best
+  );
+}
+
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error("CSV ends inside a quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // blank lines don't make records
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+const numberPattern = /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/**zero-padded ids and ZIP codes like "007" would lose their zeros as numbers */
+const leadingZeroPattern = /^-?0\d/;
+
+function inferColumnType(values: string[]): ColumnType {
+  const present = values.map((v) => v.trim()).filter((v) => v !== "");
+  if (present.length === 0) {
+    return "string";
+  }
+  if (
+    present.every((v) => numberPattern.test(v)) &&
+    !present.some((v) => leadingZeroPattern.test(v))
+  ) {
+    return "number";
+  }
+  if (present.every((v) => /^(true|false)$/i.test(v))) {
+    return "boolean";
+  }
+  return "string";
+}
+
+function convertValue(value: string, type: ColumnType): unknown {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return null;
+  }
+  switch (type) {
+    case "number":
+      return Number(trimmed);
+    case "boolean":
+      return trimmed.toLowerCase() === "true";
+    case "string":
+      return value;
+  }
+}
+
+/**base, or base with the first free " (n)" suffix, so it doesn't clash with any of usedNames */
+export function getUnusedName(base: string, usedNames: Iterable<string>) {
+  const used = new Set(usedNames);
+  let name = base;
+  for (let n = 2; used.has(name); n++) {
+    name = `${base} (${n})`;
+  }
+  return name;
+}
+
+export function parseCsv(text: string): ParsedDataset {
+  const withoutBom = text.replace(/^\uFEFF/, "");
+  const [header, ...rows] = parseCsvRows(
+    withoutBom,
+    detectDelimiter(withoutBom)
+  );
+  if (!header) {
+    throw new Error("CSV has no header row");
+  }
+
+  // blank or repeated headers still need distinct field names
+  const names: string[] = [];
+  header.forEach((raw, i) => {
+    names.push(getUnusedName(raw.trim() || `Column ${i + 1}`, names));
+  });
+
+  const columns = names.map((name, i) => ({
+    name,
+    type: inferColumnType(rows.map((row) => row[i] ?? "")),
+  }));
+
+  return {
+    columns,
+    records: rows.map((row) =>
+      Object.fromEntries(
+        columns.map(({ name, type }, i) => [
+          name,
+          convertValue(row[i] ?? "", type),
+        ])
+      )
+    ),
+  };
+}
+
+function getValueType(value: unknown): ColumnType | null {
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (value === null || value === undefined) return null;
+  return "string";
+}
+
+/**an array of objects, or an object with one array-of-objects property (e.g. `{ "data": [...] }`) */
+export function parseJsonDataset(text: string): ParsedDataset {
+  const json: unknown = JSON.parse(text);
+  const rows = Array.isArray(json)
+    ? json
+    : typeof json === "object" && json !== null
+    ? Object.values(json).find(Array.isArray)
+    : undefined;
+  if (!rows) {
+    throw new Error("JSON has no array of records");
+  }
+
+  const records: DatasetRecord[] = [];
+  const types = new Map<string, Set<ColumnType>>();
+  rows.forEach((row: unknown, i: number) => {
+    if (typeof row !== "object" || row === null || Array.isArray(row)) {
+      throw new Error(`JSON record ${i} is not an object`);
+    }
+    const record: DatasetRecord = {};
+    for (const [name, value] of Object.entries(row)) {
+      // nested values become strings, since cards only show flat fields
+      record[name] =
+        typeof value === "object" && value !== null
+          ? JSON.stringify(value)
+          : value;
+      const columnTypes = types.get(name) ?? new Set();
+      const type = getValueType(record[name]);
+      if (type) columnTypes.add(type);
+      types.set(name, columnTypes);
+    }
+    records.push(record);
+  });
+
+  return {
+    columns: [...types].map(([name, columnTypes]) => ({
+      name,
+      type: columnTypes.size === 1 ? [...columnTypes][0] : "string",
+    })),
+    records,
+  };
+}
+
+export async function parseDatasetFile(file: File): Promise<ParsedDataset> {
+  const text = await file.text();
+  const isJson = file.type === "application/json" || /\.json$/i.test(file.name);
+  return isJson ? parseJsonDataset(text) : parseCsv(text);
+}
@@ -0,0 +1,1379 @@
+/**
+ * DOM-free layout backend
+ *
+ * Solves block, flex and grid layout for `Box` trees in plain TypeScript, so layout can run
+ * on the Bun server and in tests. Supports the CSS subset parsed by `parseBoxCss`;
+ * every box is treated as `box-sizing: border-box`, like the DOM backend forces.
+ *
+ * Known gaps vs the browser: margins only collapse between block siblings (never
+ * through a parent), auto margins resolve to 0, and baseline alignment is treated
+ * as flex-start. Grid tracks are sized from single-span items only, and fr rows
+ * behave like auto rows when the grid's height is indefinite.
+ */
+
+import type {
+  Box,
+  BoxText,
+  LayoutProgress,
+  PositionedCanvasBox,
+} from "@/layoutEngine";
+import { getBoxModel, type LayoutRect } from "@/boxModel";
+import {
+  parseBoxCss,
+  type ContentAlignment,
+  type CssLength,
+  type GridTrackSize,
+  type ItemAlignment,
+  type ParsedBoxCss,
+} from "@/cssParser";
+import { getGridPlacements, type GridAreaPlacement } from "@/gridLayout";
+import {
+  breakTextIntoLines,
+  getDefaultTextMeasurer,
+  getTextIntrinsicWidths,
+  type TextLine,
+  type TextMeasurer,
+} from "@/textLayout";
+
+interface SolverNode {
+  box: Box;
+  css: ParsedBoxCss;
+  children: SolverNode[];
+  /**border box, relative to the parent's border box */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**inputs of the last layout pass, so measuring the same subtree twice is free */
+  lastLayout?: LayoutInput;
+  intrinsicWidths?: { min?: number; max?: number };
+  /**anonymous block holding the box's text, laid out as the first child */
+  textNode?: SolverNode;
+  /**flex containers only, relative to the node's border box */
+  flexLines?: LayoutRect[];
+  /**set on text nodes only */
+  text?: {
+    value: BoxText;
+    measureText: TextMeasurer;
+    lines: TextLine[];
+  };
+}
+
+interface LayoutInput {
+  /**resolved border-box width */
+  width: number;
+  /**resolved border-box height, or undefined to size to content */
+  height: number | undefined;
+  containingWidth: number;
+  containingHeight: number | undefined;
+}
+
+type Axis = "width" | "height";
+
+/**yields once per box laid out, true the first time that box is laid out */
+type LayoutSteps = Generator<boolean, void, void>;
+
+export function getSolvedPositionedBoxes(args: {
+  rootBox: Box;
+  measureText?: TextMeasurer;
+  /**adds each box's margin, border, padding and content rects, and flex lines */
+  includeBoxModel?: boolean;
+}): PositionedCanvasBox {
+  const steps = solvePositionedBoxes(args);
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * the solve as a generator that yields its progress after every box it builds or lays out, so
+ * a caller can spread a large tree over several time slices
+ */
+export function* solvePositionedBoxes(args: {
+  rootBox: Box;
+  measureText?: TextMeasurer;
+  includeBoxModel?: boolean;
+}): Generator<LayoutProgress, PositionedCanvasBox, void> {
+  const {
+    rootBox,
+    measureText = getDefaultTextMeasurer(),
+    includeBoxModel = false,
+  } = args;
+
+  // parents come before their children, so nodes are built from the end, children first
+  const boxes: Box[] = [];
+  const visit = (box: Box) => {
+    boxes.push(box);
+    box.children?.forEach(visit);
+  };
+  visit(rootBox);
+  const total = boxes.length;
+  const nodes = new Map<Box, SolverNode>();
+  for (let i = total - 1; i >= 0; i--) {
+    const box = boxes[i];
+    const children = (box.children ?? []).map((c) => nodes.get(c)!);
+    nodes.set(box, getSolverNode(box, children, measureText));
+    yield { phase: "build", completed: total - i, total };
+  }
+  const root = nodes.get(rootBox)!;
+
+  // the root is absolutely positioned, so it shrinks to fit its content
+  const specifiedWidth = resolveLength(root.css.width, undefined);
+  const width = clampSize(
+    root,
+    "width",
+    specifiedWidth ?? getIntrinsicWidth(root, "max"),
+    undefined
+  );
+  const specifiedHeight = resolveLength(root.css.height, undefined);
+
+  let laidOut = 0;
+  for (const isFirstLayout of layoutNode(root, {
+    width,
+    height:
+      specifiedHeight === undefined
+        ? undefined
+        : clampSize(root, "height", specifiedHeight, undefined),
+    containingWidth: width,
+    containingHeight: undefined,
+  })) {
+    // text is laid out in anonymous nodes, which aren't boxes of their own
+    laidOut = Math.min(total, laidOut + Number(isFirstLayout));
+    yield { phase: "measure", completed: laidOut, total };
+  }
+
+  return getPositionsForNode(root, 0, 0, includeBoxModel);
+}
+
+function getSolverNode(
+  box: Box,
+  children: SolverNode[],
+  measureText: TextMeasurer
+): SolverNode {
+  const textNode: SolverNode | undefined = box.text && {
+    box: { id: `${box.id}-text`, type: box.type, css: "" },
+    css: parseBoxCss(""),
+    children: [],
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+    text: { value: box.text, measureText, lines: [] },
+  };
+
+  return {
+    box,
+    css: parseBoxCss(box.css),
+    children: textNode ? [textNode, ...children] : children,
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+    textNode,
+  };
+}
+
+function getPositionsForNode(
+  node: SolverNode,
+  x: number,
+  y: number,
+  includeBoxModel: boolean
+): PositionedCanvasBox {
+  const { box, textNode } = node;
+  const childOffset = textNode ? 1 : 0;
+  const positioned: PositionedCanvasBox = {
+    width: node.width,
+    height: node.height,
+    x,
+    y,
+    children: box.children?.map((_, i) => {
+      const child = node.children[i + childOffset];
+      return getPositionsForNode(
+        child,
+        x + child.x,
+        y + child.y,
+        includeBoxModel
+      );
+    }),
+    id: box.id,
+    type: box.type,
+    tag: box.tag,
+    recordId: box.recordId,
+  };
+
+  if (includeBoxModel) {
+    const containingWidth = node.lastLayout?.containingWidth ?? node.width;
+    const { padding, borderWidth } = node.css;
+    positioned.boxModel = getBoxModel({
+      border: { x, y, width: node.width, height: node.height },
+      margin: getMargins(node, containingWidth),
+      borderWidth,
+      padding: {
+        top: resolveLength(padding.top, containingWidth) ?? 0,
+        right: resolveLength(padding.right, containingWidth) ?? 0,
+        bottom: resolveLength(padding.bottom, containingWidth) ?? 0,
+        left: resolveLength(padding.left, containingWidth) ?? 0,
+      },
+    });
+    if (node.flexLines) {
+      positioned.boxModel.flexLines = node.flexLines.map((line) => ({
+        ...line,
+        x: x + line.x,
+        y: y + line.y,
+      }));
+    }
+  }
+
+  if (textNode?.text) {
+    const { value, lines } = textNode.text;
+    positioned.text = {
+      font: value.font,
+      lineHeight: value.lineHeight,
+      lines: lines.map((line, i) => ({
+        text: line.text,
+        x: x + textNode.x,
+        y: y + textNode.y + i * value.lineHeight,
+        width: line.width,
+        height: value.lineHeight,
+      })),
+    };
+  }
+
+  return positioned;
+}
+
+function resolveLength(
+  length: CssLength,
+  reference: number | undefined
+): number | undefined {
+  switch (length.unit) {
+    case "px":
+      return length.value;
+    case "%":
+      return reference === undefined
+        ? undefined
+        : (reference * length.value) / 100;
+    case "auto":
+      return undefined;
+  }
+}
+
+type Edges = { top: number; right: number; bottom: number; left: number };
+
+/**percentage margins and padding resolve against the containing block's width */
+function getMargins(node: SolverNode, containingWidth: number): Edges {
+  const { margin } = node.css;
+  return {
+    top: resolveLength(margin.top, containingWidth) ?? 0,
+    right: resolveLength(margin.right, containingWidth) ?? 0,
+    bottom: resolveLength(margin.bottom, containingWidth) ?? 0,
+    left: resolveLength(margin.left, containingWidth) ?? 0,
+  };
+}
+
+/**padding plus border */
+function getInsets(
+  node: SolverNode,
+  containingWidth: number | undefined
+): Edges {
+  const { padding, borderWidth } = node.css;
+  const resolve = (side: keyof Edges) =>
+    (resolveLength(padding[side], containingWidth) ?? 0) + borderWidth[side];
+  return {
+    top: resolve("top"),
+    right: resolve("right"),
+    bottom: resolve("bottom"),
+    left: resolve("left"),
+  };
+}
+
+function getSizeLimits(
+  node: SolverNode,
+  axis: Axis,
+  containingSize: number | undefined
+) {
+  const { css } = node;
+  const min = axis === "width" ? css.minWidth : css.minHeight;
+  const max = axis === "width" ? css.maxWidth : css.maxHeight;
+  return {
+    min: resolveLength(min, containingSize),
+    max: resolveLength(max, containingSize) ?? Infinity,
+  };
+}
+
+/**applies min/max, where min wins, and never lets a border box get smaller than its insets */
+function clampSize(
+  node: SolverNode,
+  axis: Axis,
+  size: number,
+  containingSize: number | undefined,
+  containingWidth?: number
+) {
+  const { min = 0, max } = getSizeLimits(node, axis, containingSize);
+  const insets = getInsets(node, containingWidth);
+  const insetSize =
+    axis === "width" ? insets.left + insets.right : insets.top + insets.bottom;
+  return Math.max(min, insetSize, Math.min(max, size));
+}
+
+function getSpecifiedSize(
+  node: SolverNode,
+  axis: Axis,
+  containingSize: number | undefined,
+  containingWidth?: number
+) {
+  const specified = resolveLength(node.css[axis], containingSize);
+  return specified === undefined
+    ? undefined
+    : clampSize(node, axis, specified, containingSize, containingWidth);
+}
+
+/**min-content or max-content border-box width */
+function getIntrinsicWidth(node: SolverNode, kind: "min" | "max"): number {
+  const cached = node.intrinsicWidths?.[kind];
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const { css } = node;
+  const specified = resolveLength(css.width, undefined);
+  let width: number;
+
+  if (node.text) {
+    width = getTextIntrinsicWidths({
+      text: node.text.value,
+      measureText: node.text.measureText,
+    })[kind];
+  } else if (specified !== undefined) {
+    width = clampSize(node, "width", specified, undefined);
+  } else if (css.display === "grid") {
+    const { columnWidths } = getGridColumns(node, undefined, kind);
+    const gap = resolveLength(css.columnGap, undefined) ?? 0;
+    const insets = getInsets(node, undefined);
+    width = clampSize(
+      node,
+      "width",
+      columnWidths.reduce((sum, w) => sum + w, 0) +
+        gap * Math.max(0, columnWidths.length - 1) +
+        insets.left +
+        insets.right,
+      undefined
+    );
+  } else {
+    const outerChildWidths = node.children.map((child) => {
+      const margins = getMargins(child, 0);
+      return getIntrinsicWidth(child, kind) + margins.left + margins.right;
+    });
+    const isRowFlex =
+      css.display === "flex" && css.flexDirection.startsWith("row");
+    const sumsChildren =
+      isRowFlex && (kind === "max" || css.flexWrap === "nowrap");
+
+    let contentWidth: number;
+    if (sumsChildren) {
+      const gap = resolveLength(css.columnGap, undefined) ?? 0;
+      contentWidth =
+        outerChildWidths.reduce((sum, w) => sum + w, 0) +
+        gap * Math.max(0, outerChildWidths.length - 1);
+    } else {
+      contentWidth = Math.max(0, ...outerChildWidths);
+    }
+
+    const insets = getInsets(node, undefined);
+    width = clampSize(
+      node,
+      "width",
+      Math.max(0, contentWidth) + insets.left + insets.right,
+      undefined
+    );
+  }
+
+  node.intrinsicWidths = { ...node.intrinsicWidths, [kind]: width };
+  return width;
+}
+
+function isSameLayoutInput(a: LayoutInput | undefined, b: LayoutInput) {
+  return (
+    a !== undefined &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.containingWidth === b.containingWidth &&
+    a.containingHeight === b.containingHeight
+  );
+}
+
+/**sizes the node to the given input and positions all of its descendants */
+function* layoutNode(node: SolverNode, input: LayoutInput): LayoutSteps {
+  if (isSameLayoutInput(node.lastLayout, input)) {
+    return;
+  }
+  const isFirstLayout = node.lastLayout === undefined;
+  node.lastLayout = input;
+  node.width = input.width;
+  yield isFirstLayout;
+
+  if (node.text) {
+    const { value, measureText } = node.text;
+    node.text.lines = breakTextIntoLines({
+      text: value,
+      maxWidth: input.width,
+      measureText,
+    });
+    node.height = input.height ?? node.text.lines.length * value.lineHeight;
+  } else if (node.css.display === "flex") {
+    yield* layoutFlexContainer(node, input);
+  } else if (node.css.display === "grid") {
+    yield* layoutGridContainer(node, input);
+  } else {
+    yield* layoutBlockContainer(node, input);
+  }
+}
+
+function collapseMargins(a: number, b: number) {
+  return Math.max(a, b, 0) + Math.min(a, b, 0);
+}
+
+function* layoutBlockContainer(
+  node: SolverNode,
+  input: LayoutInput
+): LayoutSteps {
+  const insets = getInsets(node, input.containingWidth);
+  const innerWidth = Math.max(0, input.width - insets.left - insets.right);
+  const innerHeight =
+    input.height === undefined
+      ? undefined
+      : Math.max(0, input.height - insets.top - insets.bottom);
+
+  let cursor = insets.top;
+  let previousMarginBottom: number | undefined;
+
+  for (const child of node.children) {
+    const margins = getMargins(child, innerWidth);
+    const width =
+      getSpecifiedSize(child, "width", innerWidth, innerWidth) ??
+      clampSize(
+        child,
+        "width",
+        innerWidth - margins.left - margins.right,
+        innerWidth,
+        innerWidth
+      );
+
+    yield* layoutNode(child, {
+      width,
+      height: getSpecifiedSize(child, "height", innerHeight, innerWidth),
+      containingWidth: innerWidth,
+      containingHeight: innerHeight,
+    });
+
+    const marginTop =
+      previousMarginBottom === undefined
+        ? margins.top
+        : collapseMargins(previousMarginBottom, margins.top);
+    child.x = insets.left + margins.left;
+    child.y = cursor + marginTop;
+    cursor = child.y + child.height;
+    previousMarginBottom = margins.bottom;
+  }
+
+  const autoHeight = cursor + (previousMarginBottom ?? 0) + insets.bottom;
+  node.height =
+    input.height ??
+    clampSize(
+      node,
+      "height",
+      autoHeight,
+      input.containingHeight,
+      input.containingWidth
+    );
+}
+
+interface FlexItem {
+  node: SolverNode;
+  marginMainStart: number;
+  marginMainEnd: number;
+  marginCrossStart: number;
+  marginCrossEnd: number;
+  alignSelf: ParsedBoxCss["alignItems"];
+  /**stretched items take the cross size of their line */
+  isStretched: boolean;
+  /**border-box width used for column items, which is known before their height */
+  columnWidth: number;
+  flexBaseSize: number;
+  hypotheticalMainSize: number;
+  minMainSize: number;
+  maxMainSize: number;
+  insetMain: number;
+  mainSize: number;
+}
+
+/**offset of the first entry and extra space between entries for justify/align-content */
+function distributeFreeSpace(
+  freeSpace: number,
+  count: number,
+  alignment: ContentAlignment
+): { offset: number; between: number } {
+  switch (alignment) {
+    case "flex-end":
+      return { offset: freeSpace, between: 0 };
+    case "center":
+      return { offset: freeSpace / 2, between: 0 };
+    case "space-between":
+      return freeSpace > 0 && count > 1
+        ? { offset: 0, between: freeSpace / (count - 1) }
+        : { offset: 0, between: 0 };
+    case "space-around":
+      return freeSpace > 0
+        ? { offset: freeSpace / count / 2, between: freeSpace / count }
+        : { offset: freeSpace / 2, between: 0 };
+    case "space-evenly":
+      return freeSpace > 0
+        ? {
+            offset: freeSpace / (count + 1),
+            between: freeSpace / (count + 1),
+          }
+        : { offset: freeSpace / 2, between: 0 };
+    case "flex-start":
+    case "stretch":
+      return { offset: 0, between: 0 };
+  }
+}
+
+function* layoutFlexContainer(
+  node: SolverNode,
+  input: LayoutInput
+): LayoutSteps {
+  const { css } = node;
+  const isRow = css.flexDirection.startsWith("row");
+  const isMainReversed = css.flexDirection.endsWith("reverse");
+  const isCrossReversed = css.flexWrap === "wrap-reverse";
+  const isSingleLine = css.flexWrap === "nowrap";
+  const mainAxis: Axis = isRow ? "width" : "height";
+  const crossAxis: Axis = isRow ? "height" : "width";
+
+  const insets = getInsets(node, input.containingWidth);
+  const innerWidth = Math.max(0, input.width - insets.left - insets.right);
+  const innerHeight =
+    input.height === undefined
+      ? undefined
+      : Math.max(0, input.height - insets.top - insets.bottom);
+  const innerMain = isRow ? innerWidth : innerHeight;
+  const innerCross = isRow ? innerHeight : innerWidth;
+  const mainGap =
+    resolveLength(isRow ? css.columnGap : css.rowGap, innerMain) ?? 0;
+  const crossGap =
+    resolveLength(isRow ? css.rowGap : css.columnGap, innerCross) ?? 0;
+
+  const childLayoutInput = (width: number, height: number | undefined) => ({
+    width,
+    height,
+    containingWidth: innerWidth,
+    containingHeight: innerHeight,
+  });
+
+  const items: FlexItem[] = [];
+  for (const child of node.children) {
+    const margins = getMargins(child, innerWidth);
+    const [marginMainStart, marginMainEnd] = isRow
+      ? [margins.left, margins.right]
+      : [margins.top, margins.bottom];
+    const [marginCrossStart, marginCrossEnd] = isRow
+      ? [margins.top, margins.bottom]
+      : [margins.left, margins.right];
+    const alignSelf =
+      child.css.alignSelf === "auto" ? css.alignItems : child.css.alignSelf;
+    const specifiedCross = isRow
+      ? getSpecifiedSize(child, "height", innerHeight, innerWidth)
+      : getSpecifiedSize(child, "width", innerWidth, innerWidth);
+    const isStretched = alignSelf === "stretch" && specifiedCross === undefined;
+
+    let columnWidth = 0;
+    if (!isRow) {
+      const available = innerWidth - margins.left - margins.right;
+      columnWidth =
+        specifiedCross ??
+        clampSize(
+          child,
+          "width",
+          isStretched
+            ? available
+            : Math.min(
+                getIntrinsicWidth(child, "max"),
+                Math.max(getIntrinsicWidth(child, "min"), available)
+              ),
+          innerWidth,
+          innerWidth
+        );
+    }
+
+    const getContentMainSize = function* (
+      kind: "min" | "max"
+    ): Generator<boolean, number, void> {
+      if (isRow) {
+        return getIntrinsicWidth(child, kind);
+      }
+      yield* layoutNode(child, childLayoutInput(columnWidth, undefined));
+      return child.height;
+    };
+
+    const specifiedMain = resolveLength(child.css[mainAxis], innerMain);
+    const flexBasis = resolveLength(child.css.flexBasis, innerMain);
+    const flexBaseSize =
+      flexBasis ?? specifiedMain ?? (yield* getContentMainSize("max"));
+
+    const limits = getSizeLimits(child, mainAxis, innerMain);
+    let minMainSize = limits.min;
+    if (minMainSize === undefined) {
+      // automatic minimum size: items don't shrink below their content
+      const contentSize = yield* getContentMainSize("min");
+      minMainSize = Math.min(
+        limits.max,
+        specifiedMain === undefined
+          ? contentSize
+          : Math.min(specifiedMain, contentSize)
+      );
+    }
+    const childInsets = getInsets(child, innerWidth);
+    const insetMain = isRow
+      ? childInsets.left + childInsets.right
+      : childInsets.top + childInsets.bottom;
+    minMainSize = Math.max(minMainSize, insetMain);
+
+    const hypotheticalMainSize = Math.max(
+      minMainSize,
+      Math.min(limits.max, flexBaseSize)
+    );
+
+    items.push({
+      node: child,
+      marginMainStart: isMainReversed ? marginMainEnd : marginMainStart,
+      marginMainEnd: isMainReversed ? marginMainStart : marginMainEnd,
+      marginCrossStart: isCrossReversed ? marginCrossEnd : marginCrossStart,
+      marginCrossEnd: isCrossReversed ? marginCrossStart : marginCrossEnd,
+      alignSelf,
+      isStretched,
+      columnWidth,
+      flexBaseSize,
+      hypotheticalMainSize,
+      minMainSize,
+      maxMainSize: limits.max,
+      insetMain,
+      mainSize: hypotheticalMainSize,
+    });
+  }
+
+  const outerHypotheticalMain = (item: FlexItem) =>
+    item.hypotheticalMainSize + item.marginMainStart + item.marginMainEnd;
+
+  // collect items into flex lines
+  const lineBreakLimit = isSingleLine
+    ? Infinity
+    : innerMain ??
+      getSizeLimits(node, mainAxis, undefined).max -
+        (isRow ? insets.left + insets.right : insets.top + insets.bottom);
+  const lines: FlexItem[][] = [];
+  let usedMain = 0;
+  for (const item of items) {
+    const line = lines.at(-1);
+    const outer = outerHypotheticalMain(item);
+    if (
+      line &&
+      line.length > 0 &&
+      usedMain + mainGap + outer > lineBreakLimit + 1e-6
+    ) {
+      lines.push([item]);
+      usedMain = outer;
+    } else if (line) {
+      line.push(item);
+      usedMain += (line.length > 1 ? mainGap : 0) + outer;
+    } else {
+      lines.push([item]);
+      usedMain = outer;
+    }
+  }
+
+  const getLineMainSize = (line: FlexItem[], size: (i: FlexItem) => number) =>
+    line.reduce(
+      (sum, item) =>
+        sum + size(item) + item.marginMainStart + item.marginMainEnd,
+      0
+    ) +
+    mainGap * Math.max(0, line.length - 1);
+
+  const insetMainTotal = isRow
+    ? insets.left + insets.right
+    : insets.top + insets.bottom;
+  const insetCrossTotal = isRow
+    ? insets.top + insets.bottom
+    : insets.left + insets.right;
+
+  let resolvedInnerMain = innerMain;
+  if (resolvedInnerMain === undefined) {
+    const contentMain = Math.max(
+      0,
+      ...lines.map((line) =>
+        getLineMainSize(line, (item) => item.hypotheticalMainSize)
+      )
+    );
+    resolvedInnerMain =
+      clampSize(
+        node,
+        mainAxis,
+        contentMain + insetMainTotal,
+        input.containingHeight,
+        input.containingWidth
+      ) - insetMainTotal;
+  }
+
+  for (const line of lines) {
+    resolveFlexibleLengths(line, resolvedInnerMain, mainGap);
+  }
+
+  // hypothetical cross sizes
+  const crossSizeOf = (item: FlexItem) =>
+    isRow ? item.node.height : item.node.width;
+  for (const item of items) {
+    if (isRow) {
+      yield* layoutNode(
+        item.node,
+        childLayoutInput(
+          item.mainSize,
+          getSpecifiedSize(item.node, "height", innerHeight, innerWidth)
+        )
+      );
+    } else {
+      yield* layoutNode(
+        item.node,
+        childLayoutInput(item.columnWidth, item.mainSize)
+      );
+    }
+  }
+
+  const lineCrossSizes = lines.map((line) =>
+    Math.max(
+      0,
+      ...line.map(
+        (item) =>
+          crossSizeOf(item) + item.marginCrossStart + item.marginCrossEnd
+      )
+    )
+  );
+  const crossGaps = crossGap * Math.max(0, lines.length - 1);
+  const containerInnerCross =
+    innerCross ??
+    clampSize(
+      node,
+      crossAxis,
+      lineCrossSizes.reduce((sum, s) => sum + s, 0) +
+        crossGaps +
+        insetCrossTotal,
+      input.containingHeight,
+      input.containingWidth
+    ) - insetCrossTotal;
+
+  let lineOffset = 0;
+  let lineBetween = 0;
+  if (isSingleLine) {
+    lineCrossSizes[0] = containerInnerCross;
+  } else {
+    const freeCross =
+      containerInnerCross -
+      lineCrossSizes.reduce((sum, s) => sum + s, 0) -
+      crossGaps;
+    if (css.alignContent === "stretch" && freeCross > 0) {
+      lineCrossSizes.forEach((_, i) => {
+        lineCrossSizes[i] += freeCross / lines.length;
+      });
+    }
+    ({ offset: lineOffset, between: lineBetween } = distributeFreeSpace(
+      freeCross,
+      lines.length,
+      css.alignContent
+    ));
+  }
+
+  const flexLines: LayoutRect[] = [];
+  node.flexLines = flexLines;
+  let lineStart = lineOffset;
+  for (const [lineIndex, line] of lines.entries()) {
+    const lineCross = lineCrossSizes[lineIndex];
+    const lineCrossPosition = isCrossReversed
+      ? containerInnerCross - lineStart - lineCross
+      : lineStart;
+    flexLines.push(
+      isRow
+        ? {
+            x: insets.left,
+            y: insets.top + lineCrossPosition,
+            width: resolvedInnerMain,
+            height: lineCross,
+          }
+        : {
+            x: insets.left + lineCrossPosition,
+            y: insets.top,
+            width: lineCross,
+            height: resolvedInnerMain,
+          }
+    );
+
+    for (const item of line) {
+      if (!item.isStretched) continue;
+      const stretched = clampSize(
+        item.node,
+        crossAxis,
+        lineCross - item.marginCrossStart - item.marginCrossEnd,
+        isRow ? innerHeight : innerWidth,
+        innerWidth
+      );
+      if (isRow) {
+        yield* layoutNode(
+          item.node,
+          childLayoutInput(item.mainSize, stretched)
+        );
+      } else {
+        yield* layoutNode(
+          item.node,
+          childLayoutInput(stretched, item.mainSize)
+        );
+      }
+    }
+
+    const freeMain =
+      resolvedInnerMain - getLineMainSize(line, (item) => item.mainSize);
+    const { offset, between } = distributeFreeSpace(
+      freeMain,
+      line.length,
+      css.justifyContent
+    );
+
+    let cursor = offset;
+    for (const item of line) {
+      let mainPosition = cursor + item.marginMainStart;
+      cursor +=
+        item.mainSize +
+        item.marginMainStart +
+        item.marginMainEnd +
+        mainGap +
+        between;
+
+      const crossSize = crossSizeOf(item);
+      const outerCross =
+        crossSize + item.marginCrossStart + item.marginCrossEnd;
+      let crossPosition = lineStart + item.marginCrossStart;
+      if (item.alignSelf === "flex-end") {
+        crossPosition += lineCross - outerCross;
+      } else if (item.alignSelf === "center") {
+        crossPosition += (lineCross - outerCross) / 2;
+      }
+
+      if (isMainReversed) {
+        mainPosition = resolvedInnerMain - mainPosition - item.mainSize;
+      }
+      if (isCrossReversed) {
+        crossPosition = containerInnerCross - crossPosition - crossSize;
+      }
+
+      item.node.x = insets.left + (isRow ? mainPosition : crossPosition);
+      item.node.y = insets.top + (isRow ? crossPosition : mainPosition);
+    }
+
+    lineStart += lineCross + crossGap + lineBetween;
+  }
+
+  node.height =
+    input.height ??
+    (isRow ? containerInnerCross : resolvedInnerMain) +
+      (insets.top + insets.bottom);
+}
+
+/**https://www.w3.org/TR/css-flexbox-1/#resolve-flexible-lengths */
+function resolveFlexibleLengths(
+  line: FlexItem[],
+  innerMain: number,
+  mainGap: number
+) {
+  const marginsAndGaps =
+    line.reduce(
+      (sum, item) => sum + item.marginMainStart + item.marginMainEnd,
+      0
+    ) +
+    mainGap * Math.max(0, line.length - 1);
+  const sumHypothetical = line.reduce(
+    (sum, item) => sum + item.hypotheticalMainSize,
+    0
+  );
+  const isGrowing = sumHypothetical + marginsAndGaps < innerMain;
+  const factorOf = (item: FlexItem) =>
+    isGrowing ? item.node.css.flexGrow : item.node.css.flexShrink;
+
+  const frozen = new Set<FlexItem>();
+  for (const item of line) {
+    item.mainSize = item.flexBaseSize;
+    if (
+      factorOf(item) === 0 ||
+      (isGrowing && item.flexBaseSize > item.hypotheticalMainSize) ||
+      (!isGrowing && item.flexBaseSize < item.hypotheticalMainSize)
+    ) {
+      item.mainSize = item.hypotheticalMainSize;
+      frozen.add(item);
+    }
+  }
+
+  const getFreeSpace = () =>
+    innerMain -
+    marginsAndGaps -
+    line.reduce((sum, item) => sum + item.mainSize, 0);
+  const initialFreeSpace = getFreeSpace();
+
+  while (frozen.size < line.length) {
+    const unfrozen = line.filter((item) => !frozen.has(item));
+    unfrozen.forEach((item) => {
+      item.mainSize = item.flexBaseSize;
+    });
+
+    let freeSpace = getFreeSpace();
+    const sumFactors = unfrozen.reduce((sum, item) => sum + factorOf(item), 0);
+    if (
+      sumFactors < 1 &&
+      Math.abs(initialFreeSpace * sumFactors) < Math.abs(freeSpace)
+    ) {
+      freeSpace = initialFreeSpace * sumFactors;
+    }
+
+    if (freeSpace !== 0) {
+      if (isGrowing) {
+        unfrozen.forEach((item) => {
+          item.mainSize += (freeSpace * factorOf(item)) / sumFactors;
+        });
+      } else {
+        const scaledFactor = (item: FlexItem) =>
+          factorOf(item) * Math.max(0, item.flexBaseSize - item.insetMain);
+        const sumScaled = unfrozen.reduce(
+          (sum, item) => sum + scaledFactor(item),
+          0
+        );
+        if (sumScaled > 0) {
+          unfrozen.forEach((item) => {
+            item.mainSize -=
+              (Math.abs(freeSpace) * scaledFactor(item)) / sumScaled;
+          });
+        }
+      }
+    }
+
+    let totalViolation = 0;
+    const violations = new Map<FlexItem, number>();
+    for (const item of unfrozen) {
+      const clamped = Math.max(
+        item.minMainSize,
+        Math.min(item.maxMainSize, item.mainSize)
+      );
+      violations.set(item, clamped - item.mainSize);
+      totalViolation += clamped - item.mainSize;
+      item.mainSize = clamped;
+    }
+
+    for (const item of unfrozen) {
+      const violation = violations.get(item) ?? 0;
+      if (
+        totalViolation === 0 ||
+        (totalViolation > 0 && violation > 0) ||
+        (totalViolation < 0 && violation < 0)
+      ) {
+        frozen.add(item);
+      }
+    }
+  }
+}
+
+function getTrackSize(tracks: GridTrackSize[], auto: GridTrackSize, i: number) {
+  return tracks[i] ?? auto;
+}
+
+/**sum of the spanned tracks and the gaps between them */
+function getAreaSize(
+  sizes: number[],
+  gap: number,
+  start: number,
+  end: number
+): number {
+  return (
+    sizes.slice(start - 1, end - 1).reduce((sum, s) => sum + s, 0) +
+    gap * (end - start - 1)
+  );
+}
+
+/**grows the tracks that allow it until the content fits, splitting the free space between them */
+function sizeGridTracks(args: {
+  tracks: GridTrackSize[];
+  /**content size of the single-span items in each track */
+  minContent: number[];
+  maxContent: number[];
+  available: number | undefined;
+  gap: number;
+  /**auto tracks take up leftover space when there are no fr tracks */
+  stretchAutoTracks: boolean;
+}): number[] {
+  const { tracks, minContent, maxContent, available, gap, stretchAutoTracks } =
+    args;
+  const gaps = gap * Math.max(0, tracks.length - 1);
+
+  const sizes = tracks.map((track, i) => {
+    if (track.unit === "px") return track.value;
+    if (track.unit === "%" && available !== undefined) {
+      return (available * track.value) / 100;
+    }
+    return minContent[i];
+  });
+  const isAuto = (i: number) =>
+    tracks[i].unit === "auto" ||
+    (tracks[i].unit === "%" && available === undefined) ||
+    (tracks[i].unit === "fr" && available === undefined);
+
+  // auto tracks grow from min-content towards max-content
+  const autoIndexes = tracks.map((_, i) => i).filter(isAuto);
+  const used = () => sizes.reduce((sum, s) => sum + s, 0) + gaps;
+  let free = available === undefined ? Infinity : available - used();
+  const growth = autoIndexes.map((i) => Math.max(0, maxContent[i] - sizes[i]));
+  const totalGrowth = growth.reduce((sum, g) => sum + g, 0);
+  if (totalGrowth > 0 && free > 0) {
+    const ratio = Math.min(1, free / totalGrowth);
+    autoIndexes.forEach((i, j) => {
+      sizes[i] += growth[j] * ratio;
+    });
+  }
+
+  if (available === undefined) {
+    return sizes;
+  }
+  free = available - used();
+
+  const frIndexes = tracks
+    .map((_, i) => i)
+    .filter((i) => tracks[i].unit === "fr");
+  if (frIndexes.length > 0) {
+    // fr tracks are minmax(auto, Nfr): flexible, but never below their content
+    const frValue = (i: number) => (tracks[i] as { value: number }).value;
+    const frSpace =
+      available -
+      gaps -
+      sizes.reduce((sum, s, i) => (frIndexes.includes(i) ? sum : sum + s), 0);
+    const flexible = new Set(frIndexes);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const inflexible = [...frIndexes].filter((i) => !flexible.has(i));
+      const space =
+        frSpace - inflexible.reduce((sum, i) => sum + minContent[i], 0);
+      const totalFr = Math.max(
+        1,
+        [...flexible].reduce((sum, i) => sum + frValue(i), 0)
+      );
+      for (const i of flexible) {
+        const size = (space / totalFr) * frValue(i);
+        if (size < minContent[i]) {
+          flexible.delete(i);
+          changed = true;
+        }
+      }
+      if (!changed) {
+        frIndexes.forEach((i) => {
+          sizes[i] = flexible.has(i)
+            ? Math.max(0, (space / totalFr) * frValue(i))
+            : minContent[i];
+        });
+      }
+    }
+  } else if (stretchAutoTracks && free > 0 && autoIndexes.length > 0) {
+    autoIndexes.forEach((i) => {
+      sizes[i] += free / autoIndexes.length;
+    });
+  }
+
+  return sizes;
+}
+
+function getGridItemNodes(node: SolverNode) {
+  const { placements, rowCount, columnCount } = getGridPlacements({
+    containerCss: node.css,
+    itemCss: node.children.map((child) => child.css),
+  });
+  return {
+    items: node.children.map((child, i) => ({
+      node: child,
+      placement: placements[i],
+    })),
+    rowCount,
+    columnCount,
+  };
+}
+
+function getGridColumns(
+  node: SolverNode,
+  innerWidth: number | undefined,
+  intrinsicKind?: "min" | "max"
+) {
+  const { css } = node;
+  const { items, rowCount, columnCount } = getGridItemNodes(node);
+  const tracks = Array.from({ length: columnCount }, (_, i) =>
+    getTrackSize(css.gridTemplateColumns, css.gridAutoColumns, i)
+  );
+
+  const contentSizes = (kind: "min" | "max") =>
+    tracks.map((_, i) =>
+      Math.max(
+        0,
+        ...items
+          .filter(
+            ({ placement }) =>
+              placement.columnStart === i + 1 && placement.columnEnd === i + 2
+          )
+          .map(({ node: child }) => {
+            const margins = getMargins(child, innerWidth ?? 0);
+            // an explicit min-width replaces the item's content-based minimum
+            const minWidth =
+              kind === "min" && intrinsicKind === undefined
+                ? resolveLength(child.css.minWidth, innerWidth)
+                : undefined;
+            return (
+              (minWidth ?? getIntrinsicWidth(child, kind)) +
+              margins.left +
+              margins.right
+            );
+          })
+      )
+    );
+
+  const minContent = contentSizes(intrinsicKind ?? "min");
+  const maxContent =
+    intrinsicKind === undefined ? contentSizes("max") : minContent;
+
+  return {
+    items,
+    rowCount,
+    columnWidths: sizeGridTracks({
+      tracks,
+      minContent,
+      maxContent,
+      available: innerWidth,
+      gap: resolveLength(css.columnGap, innerWidth) ?? 0,
+      stretchAutoTracks: css.justifyContent === "flex-start",
+    }),
+  };
+}
+
+/**offsets of each track's start edge, after content distribution */
+function getTrackOffsets(args: {
+  sizes: number[];
+  gap: number;
+  available: number;
+  alignment: ContentAlignment;
+}) {
+  const { sizes, gap, available, alignment } = args;
+  const used =
+    sizes.reduce((sum, s) => sum + s, 0) + gap * Math.max(0, sizes.length - 1);
+  const { offset, between } = distributeFreeSpace(
+    available - used,
+    sizes.length,
+    alignment
+  );
+  const offsets: number[] = [];
+  let cursor = offset;
+  for (const size of sizes) {
+    offsets.push(cursor);
+    cursor += size + gap + between;
+  }
+  return { offsets, gap: gap + between };
+}
+
+interface GridItem {
+  node: SolverNode;
+  placement: GridAreaPlacement;
+  margins: Edges;
+  justifySelf: ItemAlignment;
+  alignSelf: ItemAlignment;
+  /**width of the columns the item spans */
+  areaWidth: number;
+  isStretched: boolean;
+}
+
+function* layoutGridContainer(
+  node: SolverNode,
+  input: LayoutInput
+): LayoutSteps {
+  const { css } = node;
+  const insets = getInsets(node, input.containingWidth);
+  const innerWidth = Math.max(0, input.width - insets.left - insets.right);
+  const innerHeight =
+    input.height === undefined
+      ? undefined
+      : Math.max(0, input.height - insets.top - insets.bottom);
+  const columnGap = resolveLength(css.columnGap, innerWidth) ?? 0;
+  const rowGap = resolveLength(css.rowGap, innerHeight) ?? 0;
+
+  const { items, rowCount, columnWidths } = getGridColumns(node, innerWidth);
+  const columns = getTrackOffsets({
+    sizes: columnWidths,
+    gap: columnGap,
+    available: innerWidth,
+    alignment: css.justifyContent,
+  });
+
+  const childLayoutInput = (width: number, height: number | undefined) => ({
+    width,
+    height,
+    containingWidth: innerWidth,
+    containingHeight: innerHeight,
+  });
+
+  // item widths are known once the columns are, which gives their content heights
+  const gridItems: GridItem[] = [];
+  for (const { node: child, placement } of items) {
+    const areaWidth = getAreaSize(
+      columnWidths,
+      columns.gap,
+      placement.columnStart,
+      placement.columnEnd
+    );
+    const margins = getMargins(child, innerWidth);
+    const justifySelf =
+      child.css.justifySelf === "auto"
+        ? css.justifyItems
+        : child.css.justifySelf;
+    const alignSelf =
+      child.css.alignSelf === "auto" ? css.alignItems : child.css.alignSelf;
+    const available = areaWidth - margins.left - margins.right;
+    const width =
+      getSpecifiedSize(child, "width", innerWidth, innerWidth) ??
+      clampSize(
+        child,
+        "width",
+        justifySelf === "stretch"
+          ? available
+          : Math.min(
+              getIntrinsicWidth(child, "max"),
+              Math.max(getIntrinsicWidth(child, "min"), available)
+            ),
+        innerWidth,
+        innerWidth
+      );
+    const specifiedHeight = getSpecifiedSize(
+      child,
+      "height",
+      innerHeight,
+      innerWidth
+    );
+    yield* layoutNode(child, childLayoutInput(width, specifiedHeight));
+
+    gridItems.push({
+      node: child,
+      placement,
+      margins,
+      justifySelf,
+      alignSelf,
+      areaWidth,
+      isStretched: alignSelf === "stretch" && specifiedHeight === undefined,
+    });
+  }
+
+  const rowTracks = Array.from({ length: rowCount }, (_, i) =>
+    getTrackSize(css.gridTemplateRows, css.gridAutoRows, i)
+  );
+  const rowContent = (kind: "min" | "max") =>
+    rowTracks.map((_, i) =>
+      Math.max(
+        0,
+        ...gridItems
+          .filter(
+            ({ placement }) =>
+              placement.rowStart === i + 1 && placement.rowEnd === i + 2
+          )
+          .map(({ node: child, margins }) => {
+            const minHeight =
+              kind === "min"
+                ? resolveLength(child.css.minHeight, innerHeight)
+                : undefined;
+            return (minHeight ?? child.height) + margins.top + margins.bottom;
+          })
+      )
+    );
+  const rowHeights = sizeGridTracks({
+    tracks: rowTracks,
+    minContent: rowContent("min"),
+    maxContent: rowContent("max"),
+    available: innerHeight,
+    gap: rowGap,
+    stretchAutoTracks: css.alignContent === "stretch",
+  });
+  const contentHeight =
+    rowHeights.reduce((sum, h) => sum + h, 0) +
+    rowGap * Math.max(0, rowHeights.length - 1);
+  const resolvedInnerHeight =
+    innerHeight ??
+    clampSize(
+      node,
+      "height",
+      contentHeight + insets.top + insets.bottom,
+      input.containingHeight,
+      input.containingWidth
+    ) -
+      insets.top -
+      insets.bottom;
+  const rows = getTrackOffsets({
+    sizes: rowHeights,
+    gap: rowGap,
+    available: resolvedInnerHeight,
+    alignment: css.alignContent,
+  });
+
+  for (const item of gridItems) {
+    const { node: child, placement, margins } = item;
+    const areaHeight = getAreaSize(
+      rowHeights,
+      rows.gap,
+      placement.rowStart,
+      placement.rowEnd
+    );
+
+    if (item.isStretched) {
+      yield* layoutNode(
+        child,
+        childLayoutInput(
+          child.width,
+          clampSize(
+            child,
+            "height",
+            areaHeight - margins.top - margins.bottom,
+            innerHeight,
+            innerWidth
+          )
+        )
+      );
+    }
+
+    const alignOffset = (alignment: ParsedBoxCss["alignItems"], free: number) =>
+      alignment === "flex-end" ? free : alignment === "center" ? free / 2 : 0;
+
+    child.x =
+      insets.left +
+      columns.offsets[placement.columnStart - 1] +
+      margins.left +
+      alignOffset(
+        item.justifySelf,
+        item.areaWidth - child.width - margins.left - margins.right
+      );
+    child.y =
+      insets.top +
+      rows.offsets[placement.rowStart - 1] +
+      margins.top +
+      alignOffset(
+        item.alignSelf,
+        areaHeight - child.height - margins.top - margins.bottom
+      );
+  }
+
+  node.height =
+    input.height ?? resolvedInnerHeight + insets.top + insets.bottom;
+}
@@ -0,0 +1,222 @@
+/**
+ * CSS Grid item placement
+ *
+ * Resolves which grid cells each item occupies, from named template areas, explicit
+ * grid lines, or row-major auto-placement. Both layout backends use it: the solver to
+ * size and position grid items, and `getPositionedBoxes` to report `gridArea`.
+ *
+ * Supported subset: positive and negative line numbers, spans, named areas from
+ * `grid-template-areas`, and sparse `grid-auto-flow: row`. Named lines are not supported.
+ */
+
+import type { GridLineRange, ParsedBoxCss } from "@/cssParser";
+
+/**the cells an item occupies, as 1-based grid lines with exclusive ends */
+export interface GridAreaPlacement {
+  /**set when the item was placed by a `grid-area` name */
+  name?: string;
+  rowStart: number;
+  rowEnd: number;
+  columnStart: number;
+  columnEnd: number;
+}
+
+type LineSpan = { start: number; end: number };
+
+/**bounding lines of every named area in grid-template-areas */
+function getNamedAreas(
+  areas: string[][] | null
+): Map<string, { rows: LineSpan; columns: LineSpan }> {
+  const named = new Map<string, { rows: LineSpan; columns: LineSpan }>();
+  (areas ?? []).forEach((row, rowIndex) => {
+    row.forEach((name, columnIndex) => {
+      if (/^\.+$/.test(name)) return;
+      const area = named.get(name);
+      if (!area) {
+        named.set(name, {
+          rows: { start: rowIndex + 1, end: rowIndex + 2 },
+          columns: { start: columnIndex + 1, end: columnIndex + 2 },
+        });
+        return;
+      }
+      area.rows.start = Math.min(area.rows.start, rowIndex + 1);
+      area.rows.end = Math.max(area.rows.end, rowIndex + 2);
+      area.columns.start = Math.min(area.columns.start, columnIndex + 1);
+      area.columns.end = Math.max(area.columns.end, columnIndex + 2);
+    });
+  });
+  return named;
+}
+
+/**a definite span when the range has a start or end line, otherwise just its size */
+function resolveLineRange(
+  range: GridLineRange,
+  explicitTrackCount: number
+): LineSpan | { span: number } {
+  // -1 is the last explicit line
+  const toLine = (line: number) =>
+    line < 0 ? Math.max(1, explicitTrackCount + 2 + line) : line;
+  const span = Math.max(1, range.span ?? 1);
+  const start = range.start === undefined ? undefined : toLine(range.start);
+  const end = range.end === undefined ? undefined : toLine(range.end);
+
+  if (start !== undefined && end !== undefined) {
+    return start === end
+      ? { start, end: start + 1 }
+      : { start: Math.min(start, end), end: Math.max(start, end) };
+  }
+  if (start !== undefined) {
+    return { start, end: start + span };
+  }
+  if (end !== undefined) {
+    return { start: Math.max(1, end - span), end: Math.max(2, end) };
+  }
+  return { span };
+}
+
+function isDefinite(range: LineSpan | { span: number }): range is LineSpan {
+  return "start" in range;
+}
+
+export function getGridPlacements(args: {
+  containerCss: ParsedBoxCss;
+  itemCss: ParsedBoxCss[];
+}): {
+  placements: GridAreaPlacement[];
+  rowCount: number;
+  columnCount: number;
+} {
+  const { containerCss, itemCss } = args;
+  const areas = containerCss.gridTemplateAreas;
+  const namedAreas = getNamedAreas(areas);
+  const explicitRows = Math.max(
+    containerCss.gridTemplateRows.length,
+    areas?.length ?? 0
+  );
+  const explicitColumns = Math.max(
+    containerCss.gridTemplateColumns.length,
+    areas?.[0]?.length ?? 0
+  );
+
+  const items = itemCss.map((css) => {
+    const area =
+      css.gridAreaName === undefined
+        ? undefined
+        : namedAreas.get(css.gridAreaName);
+    return {
+      name: area ? css.gridAreaName : undefined,
+      rows: area?.rows ?? resolveLineRange(css.gridRow, explicitRows),
+      columns:
+        area?.columns ?? resolveLineRange(css.gridColumn, explicitColumns),
+    };
+  });
+
+  let columnCount = Math.max(
+    1,
+    explicitColumns,
+    ...items.map(({ columns }) =>
+      isDefinite(columns) ? columns.end - 1 : columns.span
+    )
+  );
+
+  const occupied = new Set<string>();
+  const isFree = (rows: LineSpan, columns: LineSpan) => {
+    for (let r = rows.start; r < rows.end; r++) {
+      for (let c = columns.start; c < columns.end; c++) {
+        if (occupied.has(`${r},${c}`)) return false;
+      }
+    }
+    return true;
+  };
+  const occupy = (rows: LineSpan, columns: LineSpan) => {
+    for (let r = rows.start; r < rows.end; r++) {
+      for (let c = columns.start; c < columns.end; c++) {
+        occupied.add(`${r},${c}`);
+      }
+    }
+  };
+
+  const placed: Array<{ rows: LineSpan; columns: LineSpan } | undefined> =
+    items.map(() => undefined);
+
+  // 1. items with a definite row and column
+  items.forEach(({ rows, columns }, i) => {
+    if (isDefinite(rows) && isDefinite(columns)) {
+      placed[i] = { rows, columns };
+      occupy(rows, columns);
+    }
+  });
+
+  // 2. items locked to a row take the first free columns in it
+  items.forEach(({ rows, columns }, i) => {
+    if (placed[i] || !isDefinite(rows) || isDefinite(columns)) return;
+    let start = 1;
+    while (
+      start + columns.span - 1 <= columnCount &&
+      !isFree(rows, { start, end: start + columns.span })
+    ) {
+      start += 1;
+    }
+    const area = { rows, columns: { start, end: start + columns.span } };
+    columnCount = Math.max(columnCount, area.columns.end - 1);
+    placed[i] = area;
+    occupy(area.rows, area.columns);
+  });
+
+  // 3. everything else, with a cursor that only moves forward (sparse packing)
+  let cursorRow = 1;
+  let cursorColumn = 1;
+  items.forEach(({ rows, columns }, i) => {
+    if (placed[i]) return;
+    const rowSpan = isDefinite(rows) ? rows.end - rows.start : rows.span;
+
+    if (isDefinite(columns)) {
+      if (columns.start < cursorColumn) cursorRow += 1;
+      cursorColumn = columns.start;
+      while (!isFree({ start: cursorRow, end: cursorRow + rowSpan }, columns)) {
+        cursorRow += 1;
+      }
+      placed[i] = {
+        rows: { start: cursorRow, end: cursorRow + rowSpan },
+        columns,
+      };
+    } else {
+      for (;;) {
+        const candidate = {
+          rows: { start: cursorRow, end: cursorRow + rowSpan },
+          columns: { start: cursorColumn, end: cursorColumn + columns.span },
+        };
+        if (candidate.columns.end - 1 > columnCount) {
+          cursorRow += 1;
+          cursorColumn = 1;
+        } else if (!isFree(candidate.rows, candidate.columns)) {
+          cursorColumn += 1;
+        } else {
+          placed[i] = candidate;
+          break;
+        }
+      }
+    }
+
+    const area = placed[i]!;
+    occupy(area.rows, area.columns);
+    cursorColumn = area.columns.end;
+  });
+
+  const placements = placed.map((area, i) => ({
+    ...(items[i].name === undefined ? {} : { name: items[i].name }),
+    rowStart: area!.rows.start,
+    rowEnd: area!.rows.end,
+    columnStart: area!.columns.start,
+    columnEnd: area!.columns.end,
+  }));
+
+  return {
+    placements,
+    rowCount: Math.max(explicitRows, ...placements.map((p) => p.rowEnd - 1)),
+    columnCount: Math.max(
+      columnCount,
+      ...placements.map((p) => p.columnEnd - 1)
+    ),
+  };
+}
@@ -1,5 +1,6 @@
 import { serve } from "bun";
 import index from "./index.html";
+import { handleLayoutRequest } from "./layoutApi";
 
 const server = serve({
   port: 3001,
@@ -22,6 +23,12 @@ const server = serve({
       },
     },
 
+    "/api/layout": {
+      async POST(req) {
+        return handleLayoutRequest(req);
+      },
+    },
+
     "/api/hello/:name": async req => {
       const name = req.params.name;
       return Response.json({
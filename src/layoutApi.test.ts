@@ -0,0 +1,196 @@
+import { describe, expect, test } from "bun:test";
+import { getPositionedBoxes } from "@/layoutEngine";
+import { getPresetFixture } from "@/layoutFixtures";
+import {
+  handleLayoutRequest,
+  maxBoxDepth,
+  type LayoutError,
+  type LayoutResponse,
+} from "@/layoutApi";
+import { splitChildrenOfRootBox } from "@/splitEngine";
+
+function post(body: unknown) {
+  return handleLayoutRequest(
+    new Request("http://localhost/api/layout", {
+      method: "POST",
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    })
+  );
+}
+
+async function getError(body: unknown): Promise<LayoutError> {
+  const response = await post(body);
+  expect(response.status).toBe(400);
+  return ((await response.json()) as { error: LayoutError }).error;
+}
+
+/**boxes nested `depth` levels deep, built as a string since the JSON is deeper than it's worth recursing over */
+function getNestedJson(depth: number) {
+  const open = (i: number) =>
+    `{"id":"box-${i}","type":"Card","css":"padding: 1px"${
+      i < depth - 1 ? ',"children":[' : ""
+    }`;
+  let json = "";
+  for (let i = 0; i < depth; i++) json += open(i);
+  for (let i = 0; i < depth - 1; i++) json += "}]";
+  return `{"rootBox":${json}}}`;
+}
+
+describe("handleLayoutRequest", () => {
+  const rootBox = getPresetFixture({ preset: "flexColumn" });
+
+  test("lays out the tree with the solver", async () => {
+    const response = await post({ rootBox });
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as LayoutResponse;
+    expect(body.positionedBox).toEqual(
+      getPositionedBoxes({ rootBox, backend: "solver" })
+    );
+    expect(body.splitSlides).toBeUndefined();
+    expect(body.timing.totalMs).toBeGreaterThanOrEqual(body.timing.layoutMs);
+  });
+
+  test("splits the children of the box named in split", async () => {
+    const wrappingRow = rootBox.children![0];
+    const response = await post({
+      rootBox,
+      split: { boxId: wrappingRow.id, rowEpsilonPx: 2 },
+    });
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as LayoutResponse;
+    expect(body.splitSlides).toEqual(
+      splitChildrenOfRootBox({
+        rootBox: getPositionedBoxes({ rootBox, backend: "solver" })
+          .children![0],
+        rowEpsilonPx: 2,
+      })
+    );
+    expect(body.timing.splitMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("rejects a body that isn't JSON", async () => {
+    expect((await getError("{rootBox")).code).toBe("invalid_json");
+  });
+
+  const card = { id: "card", type: "Card", css: "" };
+  const withChild = (child: unknown) => ({
+    rootBox: { id: "slide", type: "Slide", css: "", children: [child] },
+  });
+  const invalidPayloads: Array<[string, unknown, string]> = [
+    ["a body without rootBox", [], ""],
+    ["a box that isn't an object", withChild("card"), "rootBox.children[0]"],
+    ["a missing id", withChild({ ...card, id: "" }), "rootBox.children[0].id"],
+    [
+      "css that isn't a string",
+      withChild({ ...card, css: 1 }),
+      "rootBox.children[0].css",
+    ],
+    [
+      "a tag that isn't a number",
+      withChild({ ...card, tag: "1" }),
+      "rootBox.children[0].tag",
+    ],
+    [
+      "a recordId that isn't a string",
+      withChild({ ...card, recordId: 1 }),
+      "rootBox.children[0].recordId",
+    ],
+    [
+      "text that isn't an object",
+      withChild({ ...card, text: "hi" }),
+      "rootBox.children[0].text",
+    ],
+    [
+      "text without content",
+      withChild({ ...card, text: { font: "12px serif", lineHeight: 14 } }),
+      "rootBox.children[0].text.content",
+    ],
+    [
+      "text without a font",
+      withChild({ ...card, text: { content: "hi", lineHeight: 14 } }),
+      "rootBox.children[0].text.font",
+    ],
+    [
+      "text with a line height of zero",
+      withChild({
+        ...card,
+        text: { content: "hi", font: "12px serif", lineHeight: 0 },
+      }),
+      "rootBox.children[0].text.lineHeight",
+    ],
+    [
+      "text with fractional maxLines",
+      withChild({
+        ...card,
+        text: {
+          content: "hi",
+          font: "12px serif",
+          lineHeight: 14,
+          maxLines: 1.5,
+        },
+      }),
+      "rootBox.children[0].text.maxLines",
+    ],
+    [
+      "children that aren't an array",
+      withChild({ ...card, children: {} }),
+      "rootBox.children[0].children",
+    ],
+    [
+      "a split without a box id",
+      { ...withChild(card), split: { boxId: 1 } },
+      "split.boxId",
+    ],
+    [
+      "a negative row epsilon",
+      { ...withChild(card), split: { boxId: "slide", rowEpsilonPx: -1 } },
+      "split.rowEpsilonPx",
+    ],
+  ];
+  for (const [name, body, path] of invalidPayloads) {
+    test(`rejects ${name}`, async () => {
+      const error = await getError(body);
+      expect(error.code).toBe("invalid_payload");
+      expect(error.path).toBe(path);
+    });
+  }
+
+  test("rejects an unknown box type", async () => {
+    const error = await getError(withChild({ ...card, type: "Sticky" }));
+    expect(error).toMatchObject({
+      code: "unknown_box_type",
+      path: "rootBox.children[0].type",
+    });
+  });
+
+  test("rejects an id used twice, wherever it is in the tree", async () => {
+    const error = await getError(
+      withChild({ ...card, id: "group", children: [{ ...card, id: "slide" }] })
+    );
+    expect(error).toMatchObject({
+      code: "duplicate_box_id",
+      path: "rootBox.children[0].children[0].id",
+    });
+  });
+
+  test("rejects a split box that isn't in the tree", async () => {
+    const error = await getError({ rootBox, split: { boxId: "missing" } });
+    expect(error).toMatchObject({
+      code: "unknown_split_box",
+      path: "split.boxId",
+    });
+  });
+
+  test("lays out trees up to the depth limit", async () => {
+    const response = await post(getNestedJson(maxBoxDepth));
+    expect(response.status).toBe(200);
+  });
+
+  test("rejects deeper trees instead of running out of stack", async () => {
+    for (const depth of [maxBoxDepth + 1, 20_000]) {
+      const error = await getError(getNestedJson(depth));
+      expect(error.code).toBe("box_tree_too_deep");
+      expect(error.path?.split(".children[0]").length).toBe(maxBoxDepth + 1);
+    }
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * POST /api/layout
+ *
+ * Lays out a `Box` tree on the server with the DOM-free solver, so the import
+ * service can compute whiteboard coordinates without a browser tab open.
+ */
+
+import {
+  boxTypes,
+  getPositionedBoxes,
+  type Box,
+  type BoxText,
+  type BoxType,
+  type PositionedCanvasBox,
+} from "@/layoutEngine";
+import { splitChildrenOfRootBox } from "@/splitEngine";
+
+export interface LayoutRequest {
+  rootBox: Box;
+  /**when set, splits the children of the positioned box with this id into slides */
+  split?: {
+    boxId: string;
+    rowEpsilonPx?: number;
+  };
+}
+
+export interface LayoutResponse {
+  positionedBox: PositionedCanvasBox;
+  splitSlides?: Array<Array<PositionedCanvasBox>> | null;
+  timing: {
+    layoutMs: number;
+    splitMs?: number;
+    totalMs: number;
+  };
+}
+
+export type LayoutErrorCode =
+  | "invalid_json"
+  | "invalid_payload"
+  | "unknown_box_type"
+  | "duplicate_box_id"
+  | "box_tree_too_deep"
+  | "unknown_split_box";
+
+export interface LayoutError {
+  code: LayoutErrorCode;
+  message: string;
+  /**where in the payload the problem is, e.g. "rootBox.children[2].type" */
+  path?: string;
+}
+
+/**
+ * deepest nesting accepted in rootBox. Parsing, layout and splitting all walk the tree
+ * recursively, so deeper trees would run out of stack instead of failing validation.
+ */
+export const maxBoxDepth = 100;
+
+type Failure = { ok: false; error: LayoutError };
+type ParseResult = { ok: true; request: LayoutRequest } | Failure;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalid(
+  path: string,
+  message: string,
+  code: LayoutErrorCode = "invalid_payload"
+): Failure {
+  return { ok: false, error: { code, message, path } };
+}
+
+function getTextError(
+  text: unknown
+): { field: string; message: string } | null {
+  if (!isRecord(text)) {
+    return { field: "", message: "expected a text object" };
+  }
+  if (typeof text.content !== "string") {
+    return { field: ".content", message: "expected a string" };
+  }
+  if (typeof text.font !== "string" || text.font.length === 0) {
+    return { field: ".font", message: "expected a CSS font shorthand" };
+  }
+  if (typeof text.lineHeight !== "number" || !(text.lineHeight > 0)) {
+    return { field: ".lineHeight", message: "expected a positive number" };
+  }
+  if (
+    text.maxLines !== undefined &&
+    (!Number.isInteger(text.maxLines) || (text.maxLines as number) < 1)
+  ) {
+    return { field: ".maxLines", message: "expected a positive integer" };
+  }
+  return null;
+}
+
+function parseBox(
+  value: unknown,
+  path: string,
+  seenIds: Set<string>,
+  depth = 1
+): { ok: true; box: Box } | Failure {
+  if (depth > maxBoxDepth) {
+    return invalid(
+      path,
+      `boxes are nested more than ${maxBoxDepth} levels deep`,
+      "box_tree_too_deep"
+    );
+  }
+  if (!isRecord(value)) {
+    return invalid(path, "expected a box object");
+  }
+
+  const { id, type, tag, recordId, css, text, children } = value;
+  const fail = (field: string, message: string, code?: LayoutErrorCode) =>
+    invalid(`${path}.${field}`, message, code);
+
+  if (typeof id !== "string" || id.length === 0) {
+    return fail("id", "expected a non-empty string");
+  }
+  if (seenIds.has(id)) {
+    return fail(
+      "id",
+      `box id "${id}" is used more than once`,
+      "duplicate_box_id"
+    );
+  }
+  seenIds.add(id);
+
+  if (typeof type !== "string" || !boxTypes.includes(type as BoxType)) {
+    return fail(
+      "type",
+      `unknown box type ${JSON.stringify(
+        type
+      )}, expected one of: ${boxTypes.join(", ")}`,
+      "unknown_box_type"
+    );
+  }
+  if (typeof css !== "string") {
+    return fail("css", "expected a string");
+  }
+  if (tag !== undefined && (typeof tag !== "number" || !isFinite(tag))) {
+    return fail("tag", "expected a number");
+  }
+  if (recordId !== undefined && typeof recordId !== "string") {
+    return fail("recordId", "expected a string");
+  }
+  if (text !== undefined) {
+    const textError = getTextError(text);
+    if (textError) {
+      return fail(`text${textError.field}`, textError.message);
+    }
+  }
+  if (children !== undefined && !Array.isArray(children)) {
+    return fail("children", "expected an array of boxes");
+  }
+
+  const parsedChildren: Box[] = [];
+  for (const [i, child] of (children ?? []).entries()) {
+    const result = parseBox(
+      child,
+      `${path}.children[${i}]`,
+      seenIds,
+      depth + 1
+    );
+    if (!result.ok) {
+      return result;
+    }
+    parsedChildren.push(result.box);
+  }
+
+  return {
+    ok: true,
+    box: {
+      id,
+      type: type as BoxType,
+      tag,
+      recordId,
+      css,
+      text: text as BoxText | undefined,
+      children: children === undefined ? undefined : parsedChildren,
+    },
+  };
+}
+
+export function parseLayoutRequest(body: unknown): ParseResult {
+  if (!isRecord(body)) {
+    return invalid("", "expected a JSON object with a rootBox");
+  }
+
+  const rootResult = parseBox(body.rootBox, "rootBox", new Set());
+  if (!rootResult.ok) {
+    return rootResult;
+  }
+
+  const { split } = body;
+  if (split === undefined) {
+    return { ok: true, request: { rootBox: rootResult.box } };
+  }
+  if (!isRecord(split) || typeof split.boxId !== "string") {
+    return invalid("split.boxId", "expected a string");
+  }
+  if (
+    split.rowEpsilonPx !== undefined &&
+    (typeof split.rowEpsilonPx !== "number" || split.rowEpsilonPx < 0)
+  ) {
+    return invalid("split.rowEpsilonPx", "expected a non-negative number");
+  }
+
+  return {
+    ok: true,
+    request: {
+      rootBox: rootResult.box,
+      split: {
+        boxId: split.boxId,
+        rowEpsilonPx: split.rowEpsilonPx,
+      },
+    },
+  };
+}
+
+function findPositionedBox(
+  box: PositionedCanvasBox,
+  id: string
+): PositionedCanvasBox | undefined {
+  if (box.id === id) {
+    return box;
+  }
+  for (const child of box.children ?? []) {
+    const found = findPositionedBox(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function errorResponse(error: LayoutError, status = 400) {
+  return Response.json({ error }, { status });
+}
+
+export async function handleLayoutRequest(req: Request): Promise<Response> {
+  const startTime = performance.now();
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse({
+      code: "invalid_json",
+      message: "request body is not valid JSON",
+    });
+  }
+
+  const parsed = parseLayoutRequest(body);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+  const { rootBox, split } = parsed.request;
+
+  const layoutStart = performance.now();
+  const positionedBox = getPositionedBoxes({ rootBox, backend: "solver" });
+  const layoutMs = performance.now() - layoutStart;
+
+  const response: LayoutResponse = {
+    positionedBox,
+    timing: { layoutMs, totalMs: 0 },
+  };
+
+  if (split) {
+    const boxToSplit = findPositionedBox(positionedBox, split.boxId);
+    if (!boxToSplit) {
+      return errorResponse({
+        code: "unknown_split_box",
+        message: `no box with id "${split.boxId}" in rootBox`,
+        path: "split.boxId",
+      });
+    }
+    const splitStart = performance.now();
+    response.splitSlides = splitChildrenOfRootBox({
+      rootBox: boxToSplit,
+      rowEpsilonPx: split.rowEpsilonPx,
+    });
+    response.timing.splitMs = performance.now() - splitStart;
+  }
+
+  response.timing.totalMs = performance.now() - startTime;
+  return Response.json(response);
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createIncrementalLayout,
+  flexPresets,
+  getPositionedBoxes,
+  getPositionedBoxesAsync,
+  type LayoutProgress,
+} from "@/layoutEngine";
+import {
+  edgeCaseFixtures,
+  getLayoutOutline,
+  getPresetFixture,
+  getRegionedPresetFixture,
+  type EdgeCaseFixtureName,
+  type FlexPresetName,
+} from "@/layoutFixtures";
+import { getWrappingRows } from "@/templateCompiler";
+
+// the DOM backend needs a browser, so the goldens pin the solver's output
+describe("solver layout", () => {
+  for (const preset of Object.keys(flexPresets) as FlexPresetName[]) {
+    test(`${preset} preset`, () => {
+      const positioned = getPositionedBoxes({
+        rootBox: getPresetFixture({ preset }),
+        backend: "solver",
+      });
+      expect(getLayoutOutline(positioned)).toMatchSnapshot();
+    });
+  }
+
+  for (const name of Object.keys(edgeCaseFixtures) as EdgeCaseFixtureName[]) {
+    test(name, () => {
+      const positioned = getPositionedBoxes({
+        rootBox: edgeCaseFixtures[name],
+        backend: "solver",
+      });
+      expect(getLayoutOutline(positioned)).toMatchSnapshot();
+    });
+  }
+});
+
+describe("regioned layout", () => {
+  // the grid preset places its row in a grid area of the slide, so the slide's CSS has to stay
+  test("regions take the place of the single wrapping row", () => {
+    const single = getPositionedBoxes({
+      rootBox: getPresetFixture({ preset: "grid" }),
+      backend: "solver",
+    });
+    const regioned = getPositionedBoxes({
+      rootBox: getRegionedPresetFixture({
+        preset: "grid",
+        groupCounts: [4, 4],
+      }),
+      backend: "solver",
+    });
+    const { x, y, width, height } = single.children![0];
+    const [regions] = regioned.children!;
+    expect(regions.type).toBe("Regions");
+    expect(regions).toMatchObject({ x, y, width, height });
+
+    const [todo, done] = getWrappingRows(regioned);
+    expect(todo.x).toBe(x);
+    expect(done.x + done.width).toBe(x + width);
+    expect(done.x).toBe(todo.x + todo.width + 20);
+    expect([todo.y, done.y]).toEqual([y, y]);
+  });
+});
+
+describe("sliced solver layout", () => {
+  const rootBox = getPresetFixture({ preset: "flexRow" });
+
+  test("matches the synchronous layout, and reports progress between slices", async () => {
+    const progress: LayoutProgress[] = [];
+    const positioned = await getPositionedBoxesAsync({
+      rootBox,
+      backend: "solver",
+      chunkMs: 0,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(positioned).toEqual(
+      getPositionedBoxes({ rootBox, backend: "solver" })
+    );
+    expect(progress.map((p) => p.phase)).toContain("build");
+    expect(progress.map((p) => p.phase)).toContain("measure");
+    expect(
+      progress.every((p) => p.completed > 0 && p.completed <= p.total)
+    ).toBe(true);
+  });
+
+  test("rejects when aborted between slices", async () => {
+    const controller = new AbortController();
+    const layout = getPositionedBoxesAsync({
+      rootBox,
+      backend: "solver",
+      chunkMs: 0,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+    await expect(layout).rejects.toThrow();
+  });
+
+  test("incremental layouts report the same moved boxes as blocking ones", async () => {
+    const wider = {
+      ...rootBox,
+      children: rootBox.children!.map((c) => ({
+        ...c,
+        css: `${c.css}; gap: 20px`,
+      })),
+    };
+    const blocking = createIncrementalLayout({ backend: "solver" });
+    blocking.layout(rootBox);
+    const expected = blocking.layout(wider);
+
+    const sliced = createIncrementalLayout({ backend: "solver" });
+    await sliced.layoutAsync(rootBox, { chunkMs: 0 });
+    const result = await sliced.layoutAsync(wider, { chunkMs: 0 });
+
+    expect(expected.changedBoxIds.length).toBeGreaterThan(0);
+    expect(result).toEqual(expected);
+  });
+});
@@ -3,26 +3,75 @@
  *
  * Uses browser's CSS layout engine to calculate positions for canvas shapes
  * by creating a detached DOM tree, applying CSS, and reading computed positions.
+ * Outside the browser, the "solver" backend computes the same tree without a DOM.
  */
 
+import { parseBoxCss } from "@/cssParser";
+import { getSolvedPositionedBoxes, solvePositionedBoxes } from "@/flexSolver";
+import { getGridPlacements, type GridAreaPlacement } from "@/gridLayout";
+import {
+  getBoxModel,
+  getFlexLinesFromItems,
+  type BoxEdges,
+  type BoxModel,
+} from "@/boxModel";
+import {
+  getIsolatedLayoutRoot,
+  getStyleDiagnostics,
+  type StyleDiagnostic,
+} from "@/styleIsolation";
+import { getTextElementCss, type TextMeasurer } from "@/textLayout";
+
 // in domain world
-type BoxType =
-  | "Slide"
-  | "Wrapping Row"
-  | "Distinct Field Values"
-  | "Card"
-  | "Group Card"
-  | "Slides Container";
+export const boxTypes = [
+  "Slide",
+  "Wrapping Row",
+  "Distinct Field Values",
+  "Card",
+  "Group Card",
+  "Slides Container",
+  "Slide Chrome",
+  "Regions",
+] as const;
+
+export type BoxType = (typeof boxTypes)[number];
 
 export interface Box {
   id: string;
   type: BoxType;
-  /**for spot checking that we haven't lost any cards... long term, we should add unit tests */
+  /**for spot checking that we haven't lost any cards; the split tests check them too */
   tag?: number;
+  /**key of the dataset record the box was compiled from */
+  recordId?: string;
   css: string;
+  /**laid out before the children, so content-sized cards grow with their text */
+  text?: BoxText;
   children?: Box[];
 }
 
+export interface BoxText {
+  content: string;
+  /**CSS font shorthand, e.g. "600 14px Inter, sans-serif" */
+  font: string;
+  lineHeight: number;
+  maxLines?: number;
+}
+
+/**a line of wrapped text, in the same canvas space as its box */
+export interface TextLineBox {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PositionedText {
+  font: string;
+  lineHeight: number;
+  lines: TextLineBox[];
+}
+
 /**in some canvas space */
 export interface PositionedCanvasBox {
   id: string;
@@ -31,49 +80,566 @@ export interface PositionedCanvasBox {
   width: number;
   type: BoxType;
   tag?: Box["tag"];
+  recordId?: Box["recordId"];
   height: number;
   color?: string;
+  /**set on continuation fragments of a box that was broken across slides, to the original box id */
+  continuationOf?: string;
+  text?: PositionedText;
+  /**set on children of grid containers, to the grid cells they occupy */
+  gridArea?: GridAreaPlacement;
+  /**only when the layout was asked for it */
+  boxModel?: BoxModel;
   children?: PositionedCanvasBox[];
 }
 
-//unresolved questions: do we need to worry about overrides from document css?
+/**the box and its descendants in tree order, without recursing so deep trees can't overflow the stack */
+export function flattenPositionedBox(
+  box: PositionedCanvasBox
+): PositionedCanvasBox[] {
+  const boxes: PositionedCanvasBox[] = [];
+  const stack = [box];
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    boxes.push(next);
+    const children = next.children ?? [];
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i]);
+    }
+  }
+  return boxes;
+}
+
+/**"dom" measures in the browser, "solver" is the pure TypeScript flexbox solver */
+export type LayoutBackend = "dom" | "solver";
+
+// DOM layouts are measured inside an isolated shadow root, so document CSS can't override Box.css
 
 export function getPositionedBoxes(args: {
   rootBox: Box;
+  backend?: LayoutBackend;
+  /**solver only; the DOM backend measures text in the browser */
+  measureText?: TextMeasurer;
+  /**DOM only; reports declarations in Box.css that didn't make it into the computed style */
+  onStyleDiagnostics?: (diagnostics: StyleDiagnostic[]) => void;
+  /**adds each box's margin, border, padding and content rects, and flex lines */
+  includeBoxModel?: boolean;
 }): PositionedCanvasBox {
-  const { rootBox } = args;
+  const {
+    rootBox,
+    backend = "dom",
+    measureText,
+    onStyleDiagnostics,
+    includeBoxModel = false,
+  } = args;
+  if (backend === "solver") {
+    return withGridAreas(
+      rootBox,
+      getSolvedPositionedBoxes({ rootBox, measureText, includeBoxModel })
+    );
+  }
   // Create detached container
   const container = document.createElement("div");
-  container.style.cssText = rootBox.css;
-  container.style.position = "absolute";
-  container.style.boxSizing = "border-box";
-
-  // Position off-screen to avoid visual flash
-  container.style.top = "-10000px";
-  container.style.left = "-10000px";
-  container.style.visibility = "hidden";
-  container.style.pointerEvents = "none";
+  applyContainerCss(container, rootBox.css);
 
   const boxToElement: Record<string, HTMLDivElement> = {};
   boxToElement[rootBox.id] = container;
+  const boxToTextElement: Record<
+    string,
+    { element: HTMLDivElement; text: BoxText }
+  > = {};
+  if (rootBox.text) {
+    boxToTextElement[rootBox.id] = {
+      element: appendTextElement(container, rootBox.text),
+      text: rootBox.text,
+    };
+  }
 
-  buildTree(container, rootBox.children ?? [], boxToElement);
+  buildTree(container, rootBox.children ?? [], boxToElement, boxToTextElement);
 
   // Temporarily append to DOM to trigger layout calculation
-  document.body.appendChild(container);
+  getIsolatedLayoutRoot().appendChild(container);
+
+  const boxIdToPositionAndDimension = measureElements(
+    container,
+    boxToElement,
+    boxToTextElement
+  );
+
+  if (onStyleDiagnostics) {
+    const boxes: Array<{ box: Box; element: HTMLElement }> = [];
+    const visit = (box: Box) => {
+      boxes.push({ box, element: boxToElement[box.id] });
+      box.children?.forEach(visit);
+    };
+    visit(rootBox);
+    onStyleDiagnostics(getStyleDiagnostics(boxes));
+  }
+
+  let positioned = withGridAreas(
+    rootBox,
+    getPositionsForBox(rootBox, boxIdToPositionAndDimension)
+  );
+  if (includeBoxModel) {
+    positioned = withDomBoxModels(rootBox, positioned, boxToElement);
+  }
+
+  container.remove();
+
+  return positioned;
+}
+
+export interface IncrementalLayoutResult {
+  positionedBox: PositionedCanvasBox;
+  /**boxes from the previous layout whose position or size changed */
+  changedBoxIds: string[];
+  addedBoxIds: string[];
+  removedBoxIds: string[];
+}
+
+export interface IncrementalLayout {
+  layout(rootBox: Box): IncrementalLayoutResult;
+  /**
+   * same result as `layout`, but solves or measures in time slices like
+   * `getPositionedBoxesAsync`. Rejects with the signal's reason when aborted.
+   */
+  layoutAsync(
+    rootBox: Box,
+    options?: {
+      signal?: AbortSignal;
+      onProgress?: (progress: LayoutProgress) => void;
+      chunkMs?: number;
+    }
+  ): Promise<IncrementalLayoutResult>;
+  /**removes the detached tree from the document */
+  dispose(): void;
+}
+
+/**
+ * keeps the detached tree alive between layouts. Each call diffs the new Box tree against
+ * the previous one by id and only patches the elements whose css, text or children changed
+ * before measuring. The solver backend re-solves the whole tree, but reports changes the same way.
+ */
+export function createIncrementalLayout(
+  args: {
+    backend?: LayoutBackend;
+    measureText?: TextMeasurer;
+    includeBoxModel?: boolean;
+  } = {}
+): IncrementalLayout {
+  const { backend = "dom", measureText, includeBoxModel = false } = args;
 
-  //get all positions
-  const boxIdToPositionAndDimension: Record<
+  let previousPositions: Map<string, MeasuredBox> = new Map();
+  let container: HTMLDivElement | undefined;
+  let rootId: string | undefined;
+  const nodes = new Map<
     string,
     {
-      width: number;
-      height: number;
-      x: number;
-      y: number;
+      box?: Box;
+      element: HTMLDivElement;
+      textElement?: HTMLDivElement;
     }
+  >();
+
+  function patchElement(box: Box, seen: Set<string>): HTMLDivElement {
+    seen.add(box.id);
+    const isRoot = box.id === rootId;
+    let node = nodes.get(box.id);
+    if (!node) {
+      node = { element: isRoot ? container! : document.createElement("div") };
+      nodes.set(box.id, node);
+    }
+    const { element } = node;
+
+    if (node.box?.css !== box.css) {
+      if (isRoot) {
+        applyContainerCss(element, box.css);
+      } else {
+        element.style.cssText = box.css;
+        element.style.boxSizing = "border-box";
+      }
+    }
+
+    if (!isSameText(node.box?.text, box.text)) {
+      node.textElement?.remove();
+      node.textElement = box.text && createTextElement(box.text);
+      if (node.textElement) {
+        element.insertBefore(node.textElement, element.firstChild);
+      }
+    }
+
+    // reorder in place, so unchanged children keep their elements
+    let expected = node.textElement
+      ? node.textElement.nextSibling
+      : element.firstChild;
+    for (const child of box.children ?? []) {
+      const childElement = patchElement(child, seen);
+      if (childElement === expected) {
+        expected = expected.nextSibling;
+      } else {
+        element.insertBefore(childElement, expected);
+      }
+    }
+    while (expected) {
+      const next = expected.nextSibling;
+      element.removeChild(expected);
+      expected = next;
+    }
+
+    node.box = box;
+    return element;
+  }
+
+  /**brings the detached tree in line with rootBox, and returns its elements by box id */
+  function patchTree(rootBox: Box) {
+    if (!container || rootId !== rootBox.id) {
+      container?.remove();
+      nodes.clear();
+      container = document.createElement("div");
+      rootId = rootBox.id;
+      getIsolatedLayoutRoot().appendChild(container);
+    }
+
+    const seen = new Set<string>();
+    patchElement(rootBox, seen);
+    for (const id of nodes.keys()) {
+      if (!seen.has(id)) nodes.delete(id);
+    }
+
+    const boxToElement: Record<string, HTMLDivElement> = {};
+    const boxToTextElement: Record<
+      string,
+      { element: HTMLDivElement; text: BoxText }
+    > = {};
+    nodes.forEach(({ box, element, textElement }, id) => {
+      boxToElement[id] = element;
+      if (textElement && box?.text) {
+        boxToTextElement[id] = { element: textElement, text: box.text };
+      }
+    });
+    return { container: container!, boxToElement, boxToTextElement };
+  }
+
+  function getPositioned(
+    rootBox: Box,
+    positions: Record<string, MeasuredBox>,
+    boxToElement: Record<string, HTMLDivElement>
+  ) {
+    const positioned = withGridAreas(
+      rootBox,
+      getPositionsForBox(rootBox, positions)
+    );
+    return includeBoxModel
+      ? withDomBoxModels(rootBox, positioned, boxToElement)
+      : positioned;
+  }
+
+  /**diffs against the previous layout, which positionedBox then replaces */
+  function getResult(positionedBox: PositionedCanvasBox) {
+    const positions = new Map<string, MeasuredBox>();
+    const visit = (box: PositionedCanvasBox) => {
+      positions.set(box.id, box);
+      box.children?.forEach(visit);
+    };
+    visit(positionedBox);
+
+    const changedBoxIds: string[] = [];
+    const addedBoxIds: string[] = [];
+    positions.forEach((position, id) => {
+      const previous = previousPositions.get(id);
+      if (!previous) {
+        addedBoxIds.push(id);
+      } else if (
+        previous.x !== position.x ||
+        previous.y !== position.y ||
+        previous.width !== position.width ||
+        previous.height !== position.height
+      ) {
+        changedBoxIds.push(id);
+      }
+    });
+    const removedBoxIds = [...previousPositions.keys()].filter(
+      (id) => !positions.has(id)
+    );
+
+    previousPositions = positions;
+    return { positionedBox, changedBoxIds, addedBoxIds, removedBoxIds };
+  }
+
+  return {
+    layout(rootBox) {
+      if (backend === "solver") {
+        return getResult(
+          getPositionedBoxes({ rootBox, backend, measureText, includeBoxModel })
+        );
+      }
+      const { container, boxToElement, boxToTextElement } = patchTree(rootBox);
+      return getResult(
+        getPositioned(
+          rootBox,
+          measureElements(container, boxToElement, boxToTextElement),
+          boxToElement
+        )
+      );
+    },
+    async layoutAsync(rootBox, options = {}) {
+      const { signal, onProgress, chunkMs = 8 } = options;
+      await yieldToMainThread();
+      signal?.throwIfAborted();
+      const maybeYield = createSliceScheduler({ signal, onProgress, chunkMs });
+
+      if (backend === "solver") {
+        return getResult(
+          await solveInSlices({
+            rootBox,
+            measureText,
+            includeBoxModel,
+            maybeYield,
+          })
+        );
+      }
+      // patching only touches what changed, so it runs in one slice
+      const { container, boxToElement, boxToTextElement } = patchTree(rootBox);
+      const positions = await measureElementsInSlices({
+        container,
+        boxToElement,
+        boxToTextElement,
+        maybeYield,
+      });
+      return getResult(getPositioned(rootBox, positions, boxToElement));
+    },
+    dispose() {
+      container?.remove();
+      container = undefined;
+      rootId = undefined;
+      nodes.clear();
+      previousPositions = new Map();
+    },
+  };
+}
+
+export interface LayoutProgress {
+  phase: "build" | "measure";
+  completed: number;
+  total: number;
+}
+
+function yieldToMainThread() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * returns a check to call between steps. Once a slice has run for chunkMs, it reports the
+ * progress, yields to the main thread, and resolves to true
+ */
+function createSliceScheduler(args: {
+  signal?: AbortSignal;
+  onProgress?: (progress: LayoutProgress) => void;
+  chunkMs: number;
+}) {
+  const { signal, onProgress, chunkMs } = args;
+  let deadline = performance.now() + chunkMs;
+  return async (progress: LayoutProgress) => {
+    if (performance.now() < deadline) return false;
+    onProgress?.(progress);
+    await yieldToMainThread();
+    signal?.throwIfAborted();
+    deadline = performance.now() + chunkMs;
+    return true;
+  };
+}
+
+type SliceScheduler = ReturnType<typeof createSliceScheduler>;
+
+async function solveInSlices(args: {
+  rootBox: Box;
+  measureText?: TextMeasurer;
+  includeBoxModel: boolean;
+  maybeYield: SliceScheduler;
+}): Promise<PositionedCanvasBox> {
+  const { rootBox, measureText, includeBoxModel, maybeYield } = args;
+  const steps = solvePositionedBoxes({ rootBox, measureText, includeBoxModel });
+  let step = steps.next();
+  while (!step.done) {
+    await maybeYield(step.value);
+    step = steps.next();
+  }
+  return withGridAreas(rootBox, step.value);
+}
+
+/**the first read lays out the whole tree, later reads are cheap */
+async function measureElementsInSlices(args: {
+  container: HTMLDivElement;
+  boxToElement: Record<string, HTMLDivElement>;
+  boxToTextElement: Record<string, { element: HTMLDivElement; text: BoxText }>;
+  maybeYield: SliceScheduler;
+}): Promise<Record<string, MeasuredBox>> {
+  const { container, boxToElement, boxToTextElement, maybeYield } = args;
+  const ids = Object.keys(boxToElement);
+  const positions: Record<string, MeasuredBox> = {};
+  let rootRect = container.getBoundingClientRect();
+  for (const [i, id] of ids.entries()) {
+    const textElement = boxToTextElement[id];
+    Object.assign(
+      positions,
+      measureElements(
+        container,
+        { [id]: boxToElement[id] },
+        textElement ? { [id]: textElement } : {},
+        rootRect
+      )
+    );
+    const yielded = await maybeYield({
+      phase: "measure",
+      completed: i + 1,
+      total: ids.length,
+    });
+    if (yielded) {
+      // the page may have scrolled between slices
+      rootRect = container.getBoundingClientRect();
+    }
+  }
+  return positions;
+}
+
+/**
+ * same result as `getPositionedBoxes`, but builds and measures the DOM tree in time slices of
+ * about `chunkMs`, so large trees don't freeze the page. Rejects with the signal's reason when
+ * aborted. The solver backend is sliced between the boxes it builds and lays out.
+ */
+export async function getPositionedBoxesAsync(args: {
+  rootBox: Box;
+  backend?: LayoutBackend;
+  measureText?: TextMeasurer;
+  signal?: AbortSignal;
+  onProgress?: (progress: LayoutProgress) => void;
+  chunkMs?: number;
+  /**read in one pass at the end, since it's only for debugging overlays */
+  includeBoxModel?: boolean;
+}): Promise<PositionedCanvasBox> {
+  const {
+    rootBox,
+    backend = "dom",
+    measureText,
+    signal,
+    onProgress,
+    chunkMs = 8,
+    includeBoxModel = false,
+  } = args;
+
+  await yieldToMainThread();
+  signal?.throwIfAborted();
+  const maybeYield = createSliceScheduler({ signal, onProgress, chunkMs });
+  if (backend === "solver") {
+    return solveInSlices({ rootBox, measureText, includeBoxModel, maybeYield });
+  }
+
+  // parents come before their children
+  const entries: Array<{ box: Box; parentId?: string }> = [];
+  const visit = (box: Box, parentId?: string) => {
+    entries.push({ box, parentId });
+    box.children?.forEach((c) => visit(c, box.id));
+  };
+  visit(rootBox);
+
+  const container = document.createElement("div");
+  applyContainerCss(container, rootBox.css);
+  const boxToElement: Record<string, HTMLDivElement> = {};
+  const boxToTextElement: Record<
+    string,
+    { element: HTMLDivElement; text: BoxText }
   > = {};
 
-  const rootRect = container.getBoundingClientRect();
+  try {
+    // the container stays detached while building, so appending doesn't trigger layout
+    for (const [i, { box, parentId }] of entries.entries()) {
+      let element = container;
+      if (parentId !== undefined) {
+        element = document.createElement("div");
+        element.style.cssText = box.css;
+        element.style.boxSizing = "border-box";
+        boxToElement[parentId].appendChild(element);
+      }
+      boxToElement[box.id] = element;
+      if (box.text) {
+        boxToTextElement[box.id] = {
+          element: appendTextElement(element, box.text),
+          text: box.text,
+        };
+      }
+      await maybeYield({
+        phase: "build",
+        completed: i + 1,
+        total: entries.length,
+      });
+    }
+
+    getIsolatedLayoutRoot().appendChild(container);
+
+    const positions = await measureElementsInSlices({
+      container,
+      boxToElement,
+      boxToTextElement,
+      maybeYield,
+    });
+
+    onProgress?.({
+      phase: "measure",
+      completed: entries.length,
+      total: entries.length,
+    });
+    const positioned = withGridAreas(
+      rootBox,
+      getPositionsForBox(rootBox, positions)
+    );
+    return includeBoxModel
+      ? withDomBoxModels(rootBox, positioned, boxToElement)
+      : positioned;
+  } finally {
+    container.remove();
+  }
+}
+
+function isSameText(a: BoxText | undefined, b: BoxText | undefined) {
+  return (
+    a === b ||
+    (a !== undefined &&
+      b !== undefined &&
+      a.content === b.content &&
+      a.font === b.font &&
+      a.lineHeight === b.lineHeight &&
+      a.maxLines === b.maxLines)
+  );
+}
+
+type MeasuredBox = {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  text?: PositionedText;
+};
+
+function applyContainerCss(container: HTMLDivElement, css: string) {
+  container.style.cssText = css;
+  container.style.position = "absolute";
+  container.style.boxSizing = "border-box";
+
+  // Position off-screen to avoid visual flash
+  container.style.top = "-10000px";
+  container.style.left = "-10000px";
+  container.style.visibility = "hidden";
+  container.style.pointerEvents = "none";
+}
+
+/**reads positions relative to the container, which must be in the document */
+function measureElements(
+  container: HTMLDivElement,
+  boxToElement: Record<string, HTMLDivElement>,
+  boxToTextElement: Record<string, { element: HTMLDivElement; text: BoxText }>,
+  rootRect = container.getBoundingClientRect()
+): Record<string, MeasuredBox> {
+  const boxIdToPositionAndDimension: Record<string, MeasuredBox> = {};
 
   Object.entries(boxToElement).forEach(([id, element]) => {
     const r = element.getBoundingClientRect();
@@ -85,22 +651,94 @@ export function getPositionedBoxes(args: {
     };
   });
 
-  document.body.removeChild(container);
+  Object.entries(boxToTextElement).forEach(([id, { element, text }]) => {
+    boxIdToPositionAndDimension[id].text = getRenderedText(
+      element,
+      text,
+      rootRect
+    );
+  });
 
-  return getPositionsForBox(rootBox, boxIdToPositionAndDimension);
+  return boxIdToPositionAndDimension;
 }
 
-function getPositionsForBox(
+const gridDisplayPattern = /display\s*:\s*(inline-)?grid/i;
+
+/**annotates children of grid containers with their grid cells */
+function withGridAreas(
   box: Box,
-  boxToPositions: Record<
-    string,
-    {
-      height: number;
-      width: number;
-      x: number;
-      y: number;
+  positioned: PositionedCanvasBox
+): PositionedCanvasBox {
+  if (!box.children || !positioned.children) {
+    return positioned;
+  }
+
+  let placements: GridAreaPlacement[] | undefined;
+  if (gridDisplayPattern.test(box.css)) {
+    const containerCss = parseBoxCss(box.css);
+    if (containerCss.display === "grid") {
+      // the text block is an anonymous grid item ahead of the children
+      const itemCss = box.children.map((c) => parseBoxCss(c.css));
+      const offset = box.text ? 1 : 0;
+      placements = getGridPlacements({
+        containerCss,
+        itemCss: box.text ? [parseBoxCss(""), ...itemCss] : itemCss,
+      }).placements.slice(offset);
     }
-  >
+  }
+
+  return {
+    ...positioned,
+    children: positioned.children.map((child, i) => {
+      const withAreas = withGridAreas(box.children![i], child);
+      return placements ? { ...withAreas, gridArea: placements[i] } : withAreas;
+    }),
+  };
+}
+
+/**reads box models from computed styles, so the tree must still be in the document */
+function withDomBoxModels(
+  box: Box,
+  positioned: PositionedCanvasBox,
+  boxToElement: Record<string, HTMLDivElement>
+): PositionedCanvasBox {
+  const style = getComputedStyle(boxToElement[box.id]);
+  const getEdges = (property: (side: keyof BoxEdges) => string): BoxEdges => {
+    const read = (side: keyof BoxEdges) =>
+      parseFloat(style.getPropertyValue(property(side))) || 0;
+    return {
+      top: read("top"),
+      right: read("right"),
+      bottom: read("bottom"),
+      left: read("left"),
+    };
+  };
+
+  const children = box.children?.map((child, i) =>
+    withDomBoxModels(child, positioned.children![i], boxToElement)
+  );
+  const boxModel = getBoxModel({
+    border: positioned,
+    margin: getEdges((side) => `margin-${side}`),
+    borderWidth: getEdges((side) => `border-${side}-width`),
+    padding: getEdges((side) => `padding-${side}`),
+  });
+  if (style.display.endsWith("flex") && children) {
+    boxModel.flexLines = getFlexLinesFromItems({
+      content: boxModel.content,
+      items: children.map((c) => c.boxModel!.margin),
+      isRow: style.flexDirection.startsWith("row"),
+      isMainReversed: style.flexDirection.endsWith("reverse"),
+      isSingleLine: style.flexWrap === "nowrap",
+    });
+  }
+
+  return { ...positioned, boxModel, children };
+}
+
+function getPositionsForBox(
+  box: Box,
+  boxToPositions: Record<string, MeasuredBox>
 ): PositionedCanvasBox {
   const positionedBox = boxToPositions[box.id];
   return {
@@ -109,13 +747,15 @@ function getPositionsForBox(
     id: box.id,
     type: box.type,
     tag: box.tag,
+    recordId: box.recordId,
   };
 }
 
 function buildTree(
   rootElement: HTMLDivElement,
   children: Box[],
-  boxToElement: Record<string, HTMLDivElement>
+  boxToElement: Record<string, HTMLDivElement>,
+  boxToTextElement: Record<string, { element: HTMLDivElement; text: BoxText }>
 ) {
   children.forEach((c) => {
     const elementForChild = document.createElement("div");
@@ -123,13 +763,102 @@ function buildTree(
 
     elementForChild.style.boxSizing = "border-box";
     boxToElement[c.id] = elementForChild;
+    if (c.text) {
+      boxToTextElement[c.id] = {
+        element: appendTextElement(elementForChild, c.text),
+        text: c.text,
+      };
+    }
     if (c.children) {
-      buildTree(elementForChild, c.children, boxToElement);
+      buildTree(elementForChild, c.children, boxToElement, boxToTextElement);
     }
     rootElement.appendChild(elementForChild);
   });
 }
 
+/**text goes in an anonymous block ahead of the box's children */
+function appendTextElement(parent: HTMLDivElement, text: BoxText) {
+  const textElement = createTextElement(text);
+  parent.appendChild(textElement);
+  return textElement;
+}
+
+function createTextElement(text: BoxText) {
+  const textElement = document.createElement("div");
+  textElement.style.cssText = getTextElementCss(text);
+  textElement.textContent = text.content;
+  return textElement;
+}
+
+/**reads line boxes back from the rendered text, one range per word (or per character for broken words) */
+function getRenderedText(
+  element: HTMLDivElement,
+  text: BoxText,
+  rootRect: DOMRect
+): PositionedText {
+  const textNode = element.firstChild;
+  const elementRect = element.getBoundingClientRect();
+  const lines: Array<{
+    text: string;
+    left: number;
+    right: number;
+    top: number;
+  }> = [];
+
+  if (textNode instanceof Text) {
+    const range = document.createRange();
+    const addFragment = (start: number, end: number, startsWord: boolean) => {
+      range.setStart(textNode, start);
+      range.setEnd(textNode, end);
+      const rect = range.getBoundingClientRect();
+      const fragment = textNode.data.slice(start, end);
+      const line = lines.at(-1);
+      if (line && rect.top < line.top + text.lineHeight / 2) {
+        line.text += startsWord ? ` ${fragment}` : fragment;
+        line.right = Math.max(line.right, rect.right);
+      } else {
+        lines.push({
+          text: fragment,
+          left: rect.left,
+          right: rect.right,
+          top: rect.top,
+        });
+      }
+    };
+
+    for (const match of textNode.data.matchAll(/\S+/g)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      range.setStart(textNode, start);
+      range.setEnd(textNode, end);
+      if (range.getClientRects().length <= 1) {
+        addFragment(start, end, true);
+        continue;
+      }
+      for (let i = start; i < end; i++) {
+        addFragment(i, i + 1, i === start);
+      }
+    }
+  }
+
+  const visibleLines = lines.slice(0, text.maxLines ?? lines.length);
+  if (visibleLines.length > 0 && visibleLines.length < lines.length) {
+    visibleLines[visibleLines.length - 1].text += "…";
+  }
+
+  return {
+    font: text.font,
+    lineHeight: text.lineHeight,
+    lines: visibleLines.map((line, i) => ({
+      text: line.text,
+      x: line.left - rootRect.left,
+      y: elementRect.top - rootRect.top + i * text.lineHeight,
+      width: line.right - line.left,
+      height: text.lineHeight,
+    })),
+  };
+}
+
 export const flexPresets = {
   flexRow: {
     slideCss: "width: 1920px; height: 1080px;",
@@ -150,4 +879,23 @@ export const flexPresets = {
     distinctFieldValuesCss:
       "margin-top: 20px; margin-left: 150px; margin-right: 30px; display: flex; flex-direction: row; flex-wrap: wrap; padding: 25px; padding-top: 40px;",
   },
+  timeline: {
+    slideCss: "width: 1920px; height: 1080px;",
+    topLevelCardCss: "width: 240px; flex-shrink: 0;",
+    wrappingLayoutContainerCss:
+      "margin-left: 30px; margin-top: 20px; display: flex; flex-direction: row; flex-wrap: nowrap; gap: 10px; padding: 20px; width: 1800px; height: 900px",
+    secondLevelCardCss: "width: 50px; height: 75px;",
+    distinctFieldValuesCss:
+      "margin-top: 30px; display: flex; flex-direction: row; flex-wrap: wrap; gap: 2px; padding: 10px;",
+  },
+  grid: {
+    slideCss:
+      'width: 1920px; height: 1080px; display: grid; grid-template-areas: "title title" "cards legend"; grid-template-columns: 1fr 320px; grid-template-rows: 120px 1fr; gap: 20px; padding: 30px;',
+    topLevelCardCss: "",
+    wrappingLayoutContainerCss:
+      "grid-area: cards; min-height: 0; display: grid; grid-template-columns: repeat(6, 1fr); grid-auto-rows: auto; align-content: start; gap: 10px; padding: 20px;",
+    secondLevelCardCss: "width: 50px; height: 75px;",
+    distinctFieldValuesCss:
+      "margin-top: 30px; display: flex; flex-direction: row; flex-wrap: wrap; gap: 2px; padding: 10px;",
+  },
 };
@@ -0,0 +1,237 @@
+import { describe, expect, test } from "bun:test";
+import { getPositionedBoxes, type PositionedCanvasBox } from "@/layoutEngine";
+import { getPresetFixture } from "@/layoutFixtures";
+import {
+  exportLayout,
+  importLayout,
+  layoutExportVersion,
+  validateLayoutExport,
+  type LayoutExportDocument,
+} from "@/layoutExport";
+import { getTranslatedBox, splitChildrenOfRootBox } from "@/splitEngine";
+
+/**the fields the export keeps; tags, colors, grid areas and box models stay behind */
+function getExportedFields(box: PositionedCanvasBox): PositionedCanvasBox {
+  return {
+    id: box.id,
+    type: box.type,
+    x: box.x,
+    y: box.y,
+    width: box.width,
+    height: box.height,
+    recordId: box.recordId,
+    continuationOf: box.continuationOf,
+    text: box.text,
+    children: box.children?.map(getExportedFields),
+  };
+}
+
+/**the document as a consumer reads it */
+const throughJson = (document: LayoutExportDocument): unknown =>
+  JSON.parse(JSON.stringify(document));
+
+const positionedBox = getPositionedBoxes({
+  rootBox: getPresetFixture({ preset: "flexColumn" }),
+  backend: "solver",
+});
+const wrappingRow = positionedBox.children![0];
+const slides = splitChildrenOfRootBox({ rootBox: wrappingRow })!.map(
+  (boxes, i) => ({
+    frame: {
+      id: `split-slide-${i}`,
+      type: "Slide" as const,
+      x: i * (positionedBox.width + 50),
+      y: 0,
+      width: positionedBox.width,
+      height: positionedBox.height,
+    },
+    boxes,
+  })
+);
+
+describe("layout export", () => {
+  test("round-trips an unsplit layout", () => {
+    const result = importLayout(throughJson(exportLayout({ positionedBox })));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.roots).toEqual([getExportedFields(positionedBox)]);
+    expect(result.document.slides).toEqual([]);
+    expect(result.document.boxes.every((box) => box.slideIndex === null)).toBe(
+      true
+    );
+  });
+
+  test("round-trips split slides as frames holding their boxes in canvas space", () => {
+    expect(slides.length).toBeGreaterThan(1);
+    const result = importLayout(
+      throughJson(exportLayout({ positionedBox, slides }))
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.document.slides.map((s) => s.boxId)).toEqual(
+      slides.map(({ frame }) => frame.id)
+    );
+    expect(result.roots).toEqual(
+      slides.map(({ frame, boxes }) =>
+        getExportedFields({
+          ...frame,
+          children: boxes.map((b) => getTranslatedBox(b, [frame.x, frame.y])),
+        })
+      )
+    );
+    for (const box of result.document.boxes) {
+      const slideIndex = slides.findIndex(
+        ({ frame }) =>
+          frame.id === box.id ||
+          (box.x >= frame.x && box.x < frame.x + frame.width)
+      );
+      expect(box.slideIndex).toBe(slideIndex);
+    }
+  });
+});
+
+describe("validateLayoutExport", () => {
+  const document = exportLayout({ positionedBox, slides: slides.slice(0, 2) });
+  const firstChild = document.boxes.findIndex(
+    (box) => box.parentId === slides[0].frame.id
+  );
+  const secondFrame = document.boxes.findIndex(
+    (box) => box.id === slides[1].frame.id
+  );
+
+  /**the document with one change, as JSON would have it */
+  const withChange = (change: (document: any) => void) => {
+    const changed = structuredClone(document) as any;
+    change(changed);
+    return changed;
+  };
+
+  const getErrorPaths = (value: unknown) => {
+    const result = validateLayoutExport(value);
+    return result.ok ? [] : result.errors.map((e) => e.path);
+  };
+
+  test("accepts an exported document", () => {
+    expect(validateLayoutExport(throughJson(document)).ok).toBe(true);
+  });
+
+  test("rejects documents of another format or version", () => {
+    expect(getErrorPaths("layout")).toEqual([""]);
+    expect(getErrorPaths(withChange((d) => (d.format = "other")))).toEqual([
+      "format",
+    ]);
+    const result = validateLayoutExport(
+      withChange((d) => (d.version = layoutExportVersion + 1))
+    );
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      {
+        path: "version",
+        message: `unsupported version ${
+          layoutExportVersion + 1
+        }, expected ${layoutExportVersion}`,
+      },
+    ]);
+  });
+
+  const rejections: Array<[string, (document: any) => void, string]> = [
+    ["slides that aren't an array", (d) => (d.slides = {}), "slides"],
+    ["boxes that aren't an array", (d) => (d.boxes = null), "boxes"],
+    ["a slide that isn't an object", (d) => (d.slides[1] = 1), "slides[1]"],
+    ["a slide out of order", (d) => (d.slides[1].index = 0), "slides[1].index"],
+    [
+      "a slide without a box id",
+      (d) => (d.slides[0].boxId = 1),
+      "slides[0].boxId",
+    ],
+    [
+      "a slide without a width",
+      (d) => delete d.slides[0].width,
+      "slides[0].width",
+    ],
+    [
+      "a slide whose frame isn't in boxes",
+      (d) => (d.slides[1].boxId = "missing"),
+      "slides[1].boxId",
+    ],
+    ["a box that isn't an object", (d) => (d.boxes[0] = []), "boxes[0]"],
+    [
+      "an empty id",
+      (d) => (d.boxes[firstChild].id = ""),
+      `boxes[${firstChild}].id`,
+    ],
+    [
+      "an id used twice",
+      (d) => (d.boxes[firstChild].id = d.boxes[0].id),
+      `boxes[${firstChild}].id`,
+    ],
+    [
+      "an unknown box type",
+      (d) => (d.boxes[firstChild].type = "Sticky"),
+      `boxes[${firstChild}].type`,
+    ],
+    [
+      "a parent id that isn't a string",
+      (d) => (d.boxes[firstChild].parentId = 1),
+      `boxes[${firstChild}].parentId`,
+    ],
+    [
+      "a parent listed after its child",
+      (d) => (d.boxes[firstChild].parentId = d.boxes.at(-1).id),
+      `boxes[${firstChild}].parentId`,
+    ],
+    [
+      "a coordinate that isn't a number",
+      (d) => (d.boxes[firstChild].x = "10"),
+      `boxes[${firstChild}].x`,
+    ],
+    [
+      "a slide index past the slides",
+      (d) => (d.boxes[secondFrame].slideIndex = 2),
+      `boxes[${secondFrame}].slideIndex`,
+    ],
+    [
+      "a child on another slide than its parent",
+      (d) => (d.boxes[firstChild].slideIndex = 1),
+      `boxes[${firstChild}].slideIndex`,
+    ],
+    [
+      "a record id that isn't a string",
+      (d) => (d.boxes[firstChild].recordId = 1),
+      `boxes[${firstChild}].recordId`,
+    ],
+    [
+      "a continuation of something that isn't an id",
+      (d) => (d.boxes[firstChild].continuationOf = false),
+      `boxes[${firstChild}].continuationOf`,
+    ],
+    [
+      "text without its lines",
+      (d) =>
+        (d.boxes[firstChild].text = { font: "12px serif", lineHeight: 14 }),
+      `boxes[${firstChild}].text`,
+    ],
+    [
+      "a text line without a position",
+      (d) =>
+        (d.boxes[firstChild].text = {
+          font: "12px serif",
+          lineHeight: 14,
+          lines: [
+            { text: "hi", x: 0, y: 0, width: 10, height: 14 },
+            { text: "" },
+          ],
+        }),
+      `boxes[${firstChild}].text.lines[1]`,
+    ],
+  ];
+  for (const [name, change, path] of rejections) {
+    test(`rejects ${name}`, () => {
+      // a box's children can fail too, after it
+      expect(getErrorPaths(withChange(change))[0]).toBe(path);
+      expect(importLayout(withChange(change)).ok).toBe(false);
+    });
+  }
+});
@@ -0,0 +1,343 @@
+/**
+ * Whiteboard import document
+ *
+ * A versioned, flat JSON format for positioned layouts, so consumers don't depend on
+ * `PositionedCanvasBox`. Boxes are listed parents first, with absolute canvas coordinates in
+ * CSS px and a link to their parent. See "Layout export format" in the README.
+ */
+
+import {
+  boxTypes,
+  type BoxType,
+  type PositionedCanvasBox,
+  type TextLineBox,
+} from "@/layoutEngine";
+
+export const layoutExportFormat = "test-layout/positioned-boxes";
+export const layoutExportVersion = 1;
+
+export interface ExportedBox {
+  id: string;
+  type: BoxType;
+  /**null for top-level boxes */
+  parentId: string | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**index into `slides`, or null when the layout wasn't split */
+  slideIndex: number | null;
+  /**key of the dataset record the box was compiled from */
+  recordId: string | null;
+  /**set on continuation fragments, to the id of the box they continue */
+  continuationOf: string | null;
+  text: {
+    font: string;
+    lineHeight: number;
+    lines: TextLineBox[];
+  } | null;
+}
+
+export interface ExportedSlide {
+  index: number;
+  /**id of the slide's frame in `boxes` */
+  boxId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutExportDocument {
+  format: typeof layoutExportFormat;
+  version: typeof layoutExportVersion;
+  slides: ExportedSlide[];
+  boxes: ExportedBox[];
+}
+
+function toExportedBoxes(
+  box: PositionedCanvasBox,
+  parentId: string | null,
+  slideIndex: number | null
+): ExportedBox[] {
+  return [
+    {
+      id: box.id,
+      type: box.type,
+      parentId,
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      slideIndex,
+      recordId: box.recordId ?? null,
+      continuationOf: box.continuationOf ?? null,
+      text: box.text ?? null,
+    },
+    ...(box.children ?? []).flatMap((child) =>
+      toExportedBoxes(child, box.id, slideIndex)
+    ),
+  ];
+}
+
+/**
+ * exports a single positioned tree, or split slides when given. Slide boxes are positioned
+ * relative to their frame, like `splitChildrenOfRootBox` returns them, and become children
+ * of the frame in the export.
+ */
+export function exportLayout(args: {
+  positionedBox: PositionedCanvasBox;
+  slides?: Array<{
+    frame: PositionedCanvasBox;
+    boxes: Array<PositionedCanvasBox>;
+  }>;
+}): LayoutExportDocument {
+  const { positionedBox, slides } = args;
+
+  if (!slides) {
+    return {
+      format: layoutExportFormat,
+      version: layoutExportVersion,
+      slides: [],
+      boxes: toExportedBoxes(positionedBox, null, null),
+    };
+  }
+
+  return {
+    format: layoutExportFormat,
+    version: layoutExportVersion,
+    slides: slides.map(({ frame }, index) => ({
+      index,
+      boxId: frame.id,
+      x: frame.x,
+      y: frame.y,
+      width: frame.width,
+      height: frame.height,
+    })),
+    boxes: slides.flatMap(({ frame, boxes }, index) => [
+      ...toExportedBoxes({ ...frame, children: undefined }, null, index),
+      ...boxes.flatMap((b) =>
+        toExportedBoxes(translate(b, frame.x, frame.y), frame.id, index)
+      ),
+    ]),
+  };
+}
+
+function translate(
+  box: PositionedCanvasBox,
+  dx: number,
+  dy: number
+): PositionedCanvasBox {
+  return {
+    ...box,
+    x: box.x + dx,
+    y: box.y + dy,
+    text: box.text && {
+      ...box.text,
+      lines: box.text.lines.map((l) => ({ ...l, x: l.x + dx, y: l.y + dy })),
+    },
+    children: box.children?.map((c) => translate(c, dx, dy)),
+  };
+}
+
+export interface LayoutImportError {
+  /**where in the document the problem is, e.g. "boxes[3].parentId" */
+  path: string;
+  message: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value);
+
+const isNullableString = (value: unknown) =>
+  value === null || typeof value === "string";
+
+function getTextErrors(text: unknown, path: string): LayoutImportError[] {
+  if (text === null) return [];
+  if (
+    !isRecord(text) ||
+    typeof text.font !== "string" ||
+    !isFiniteNumber(text.lineHeight) ||
+    !Array.isArray(text.lines)
+  ) {
+    return [{ path, message: "expected null or { font, lineHeight, lines }" }];
+  }
+  return text.lines.flatMap((line: unknown, i) =>
+    isRecord(line) &&
+    typeof line.text === "string" &&
+    ["x", "y", "width", "height"].every((k) => isFiniteNumber(line[k]))
+      ? []
+      : [
+          {
+            path: `${path}.lines[${i}]`,
+            message: "expected { text, x, y, width, height }",
+          },
+        ]
+  );
+}
+
+/**
+ * checks every field, that parents and slides are listed before they're referenced, and that
+ * children are on their parent's slide
+ */
+export function validateLayoutExport(value: unknown):
+  | { ok: true; document: LayoutExportDocument }
+  | {
+      ok: false;
+      errors: LayoutImportError[];
+    } {
+  const errors: LayoutImportError[] = [];
+  const fail = (path: string, message: string) => {
+    errors.push({ path, message });
+    return { ok: false as const, errors };
+  };
+
+  if (!isRecord(value)) {
+    return fail("", "expected a layout export object");
+  }
+  if (value.format !== layoutExportFormat) {
+    return fail("format", `expected "${layoutExportFormat}"`);
+  }
+  if (value.version !== layoutExportVersion) {
+    return fail(
+      "version",
+      `unsupported version ${JSON.stringify(
+        value.version
+      )}, expected ${layoutExportVersion}`
+    );
+  }
+  if (!Array.isArray(value.slides)) {
+    return fail("slides", "expected an array");
+  }
+  if (!Array.isArray(value.boxes)) {
+    return fail("boxes", "expected an array");
+  }
+
+  const slideCount = value.slides.length;
+  value.slides.forEach((slide: unknown, i) => {
+    const path = `slides[${i}]`;
+    if (!isRecord(slide)) {
+      fail(path, "expected a slide object");
+      return;
+    }
+    if (slide.index !== i) fail(`${path}.index`, `expected ${i}`);
+    if (typeof slide.boxId !== "string") {
+      fail(`${path}.boxId`, "expected a string");
+    }
+    for (const key of ["x", "y", "width", "height"]) {
+      if (!isFiniteNumber(slide[key])) {
+        fail(`${path}.${key}`, "expected a number");
+      }
+    }
+  });
+
+  const seenIds = new Set<string>();
+  const slideIndexById = new Map<string, unknown>();
+  value.boxes.forEach((box: unknown, i) => {
+    const path = `boxes[${i}]`;
+    if (!isRecord(box)) {
+      fail(path, "expected a box object");
+      return;
+    }
+    if (typeof box.id !== "string" || box.id.length === 0) {
+      fail(`${path}.id`, "expected a non-empty string");
+    } else if (seenIds.has(box.id)) {
+      fail(`${path}.id`, `box id "${box.id}" is used more than once`);
+    }
+    if (!boxTypes.includes(box.type as BoxType)) {
+      fail(`${path}.type`, `expected one of: ${boxTypes.join(", ")}`);
+    }
+    if (!isNullableString(box.parentId)) {
+      fail(`${path}.parentId`, "expected a string or null");
+    } else if (box.parentId !== null && !seenIds.has(box.parentId as string)) {
+      fail(`${path}.parentId`, "parent must be listed before its children");
+    }
+    for (const key of ["x", "y", "width", "height"]) {
+      if (!isFiniteNumber(box[key])) {
+        fail(`${path}.${key}`, "expected a number");
+      }
+    }
+    if (
+      box.slideIndex !== null &&
+      !(
+        Number.isInteger(box.slideIndex) &&
+        (box.slideIndex as number) >= 0 &&
+        (box.slideIndex as number) < slideCount
+      )
+    ) {
+      fail(`${path}.slideIndex`, "expected null or an index into slides");
+    } else if (
+      typeof box.parentId === "string" &&
+      slideIndexById.has(box.parentId) &&
+      slideIndexById.get(box.parentId) !== box.slideIndex
+    ) {
+      fail(`${path}.slideIndex`, "expected the parent's slide index");
+    }
+    if (!isNullableString(box.recordId)) {
+      fail(`${path}.recordId`, "expected a string or null");
+    }
+    if (!isNullableString(box.continuationOf)) {
+      fail(`${path}.continuationOf`, "expected a string or null");
+    }
+    errors.push(...getTextErrors(box.text, `${path}.text`));
+    if (typeof box.id === "string") {
+      seenIds.add(box.id);
+      slideIndexById.set(box.id, box.slideIndex);
+    }
+  });
+
+  value.slides.forEach((slide: unknown, i) => {
+    if (
+      isRecord(slide) &&
+      typeof slide.boxId === "string" &&
+      !seenIds.has(slide.boxId)
+    ) {
+      fail(`slides[${i}].boxId`, "no box with this id");
+    }
+  });
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, document: value as unknown as LayoutExportDocument };
+}
+
+/**validates a document and rebuilds its positioned trees, one per top-level box */
+export function importLayout(
+  value: unknown
+):
+  | { ok: true; document: LayoutExportDocument; roots: PositionedCanvasBox[] }
+  | { ok: false; errors: LayoutImportError[] } {
+  const result = validateLayoutExport(value);
+  if (!result.ok) {
+    return result;
+  }
+
+  const roots: PositionedCanvasBox[] = [];
+  const byId = new Map<string, PositionedCanvasBox>();
+  for (const box of result.document.boxes) {
+    const positioned: PositionedCanvasBox = {
+      id: box.id,
+      type: box.type,
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      recordId: box.recordId ?? undefined,
+      continuationOf: box.continuationOf ?? undefined,
+      text: box.text ?? undefined,
+    };
+    byId.set(box.id, positioned);
+    const parent = box.parentId === null ? undefined : byId.get(box.parentId);
+    if (parent) {
+      (parent.children ??= []).push(positioned);
+    } else {
+      roots.push(positioned);
+    }
+  }
+
+  return { ok: true, document: result.document, roots };
+}
@@ -0,0 +1,176 @@
+/**
+ * Fixture Box trees for the layout and split tests
+ *
+ * The demo's presets filled with a fixed set of records, so layouts don't change between runs,
+ * plus hand-built trees for cases the presets don't reach.
+ */
+
+import {
+  flexPresets,
+  type Box,
+  type PositionedCanvasBox,
+} from "@/layoutEngine";
+import {
+  compileBoxTree,
+  compileRegionedBoxTree,
+  type BoxTemplate,
+} from "@/templateCompiler";
+
+export type FlexPresetName = keyof typeof flexPresets;
+
+function getPresetRecords(groupCount: number) {
+  return Array.from({ length: groupCount })
+    .flatMap((_, group) =>
+      Array.from({ length: ((group * 7) % 13) + 1 }, () => ({ group }))
+    )
+    .map((record, i) => ({ ...record, key: i + 1 }));
+}
+
+function getPresetTemplate(preset: FlexPresetName): BoxTemplate {
+  const css = flexPresets[preset];
+  return {
+    slideCss: css.slideCss,
+    wrappingRowCss: css.wrappingLayoutContainerCss,
+    cardCss: css.secondLevelCardCss,
+    keyField: "key",
+    groupBy: [
+      {
+        field: "group",
+        groupCardCss: css.topLevelCardCss,
+        distinctFieldValuesCss: css.distinctFieldValuesCss,
+      },
+    ],
+  };
+}
+
+/**
+ * a preset's slide with groupCount Group Cards of 1 to 13 Cards each, compiled the way the demo
+ * compiles its synthetic records
+ */
+export function getPresetFixture(args: {
+  preset: FlexPresetName;
+  groupCount?: number;
+}): Box {
+  const { preset, groupCount = 24 } = args;
+  return compileBoxTree({
+    records: getPresetRecords(groupCount),
+    template: getPresetTemplate(preset),
+  });
+}
+
+/**a preset's slide with a region of Group Cards per entry of groupCounts, side by side */
+export function getRegionedPresetFixture(args: {
+  preset: FlexPresetName;
+  groupCounts: number[];
+}): Box {
+  const { preset, groupCounts } = args;
+  return compileRegionedBoxTree({
+    regions: groupCounts.map(getPresetRecords),
+    template: getPresetTemplate(preset),
+  });
+}
+
+const edgeCaseSlideCss = "width: 800px; height: 700px;";
+const edgeCaseWrappingRowCss =
+  "display: flex; flex-direction: row; flex-wrap: wrap; gap: 10px; padding: 40px; width: 700px; height: 600px;";
+
+function getCards(args: { count: number; css: string; firstTag?: number }) {
+  const { count, css, firstTag = 1 } = args;
+  return Array.from(
+    { length: count },
+    (_, i): Box => ({
+      id: `card-${firstTag + i}`,
+      type: "Card",
+      tag: firstTag + i,
+      css,
+    })
+  );
+}
+
+function getEdgeCaseSlide(children: Box[]): Box {
+  return {
+    id: "slide",
+    type: "Slide",
+    css: edgeCaseSlideCss,
+    children: [
+      {
+        id: "wrapping-row",
+        type: "Wrapping Row",
+        css: edgeCaseWrappingRowCss,
+        children,
+      },
+    ],
+  };
+}
+
+export const edgeCaseFixtures = {
+  /**nothing to lay out or split */
+  emptyWrappingRow: getEdgeCaseSlide([]),
+  /**a Group Card whose Distinct Field Values has no cards, between two that do */
+  emptyGroupCard: getEdgeCaseSlide(
+    [0, 1, 2].map((group) => ({
+      id: `group-${group}`,
+      type: "Group Card",
+      tag: group,
+      css: "",
+      children: [
+        {
+          id: `values-${group}`,
+          type: "Distinct Field Values",
+          css: "display: flex; flex-wrap: wrap; gap: 2px; padding: 10px; width: 200px;",
+          children:
+            group === 1
+              ? []
+              : getCards({
+                  count: 30,
+                  css: "width: 50px; height: 75px;",
+                  firstTag: group * 30 + 1,
+                }),
+        },
+      ],
+    }))
+  ),
+  /**a card taller than the slide, between rows of cards that fit */
+  giantCard: getEdgeCaseSlide([
+    ...getCards({ count: 12, css: "width: 100px; height: 100px;" }),
+    {
+      id: "card-giant",
+      type: "Card",
+      tag: 13,
+      css: "width: 600px; height: 2000px;",
+    },
+    ...getCards({
+      count: 12,
+      css: "width: 100px; height: 100px;",
+      firstTag: 14,
+    }),
+  ]),
+  /**cards pulled up and left over the gaps, so rows overlap */
+  negativeMargins: getEdgeCaseSlide(
+    getCards({
+      count: 60,
+      css: "width: 80px; height: 120px; margin-top: -30px; margin-left: -15px;",
+    })
+  ),
+} satisfies Record<string, Box>;
+
+export type EdgeCaseFixtureName = keyof typeof edgeCaseFixtures;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**one line per box, indented by depth, so snapshot diffs point at the boxes that moved */
+export function getLayoutOutline(
+  boxes: PositionedCanvasBox | PositionedCanvasBox[],
+  depth = 0
+): string[] {
+  return [boxes]
+    .flat()
+    .flatMap((box) => [
+      `${"  ".repeat(depth)}${box.id} (${box.type}${
+        box.continuationOf ? `, continues ${box.continuationOf}` : ""
+      }) ${round(box.x)},${round(box.y)} ${round(box.width)}x${round(
+        box.height
+      )}`,
+      ...getLayoutOutline(box.children ?? [], depth + 1),
+    ]);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import type { PositionedCanvasBox } from "@/layoutEngine";
+import { emuPerPx, getSplitSlidesPptx } from "@/pptxExport";
+import { createZip } from "@/zip";
+
+interface ZipRecord {
+  path: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+/**reads a stored zip from its end record, and checks each local header against the central one */
+function readZip(zip: Uint8Array): ZipRecord[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const records: ZipRecord[] = [];
+  let position = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(
+      zip.subarray(position + 46, position + 46 + nameLength)
+    );
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    expect(view.getUint16(localOffset + 26, true)).toBe(nameLength);
+    const dataStart = localOffset + 30 + nameLength;
+    expect(decoder.decode(zip.subarray(localOffset + 30, dataStart))).toBe(
+      path
+    );
+
+    records.push({
+      path,
+      crc,
+      data: zip.subarray(dataStart, dataStart + size),
+    });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(end);
+  return records;
+}
+
+describe("createZip", () => {
+  test("round-trips names, data and CRCs through the central directory", () => {
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    const records = readZip(
+      createZip([
+        { path: "a.txt", data: "hello" },
+        { path: "dir/ünïcode.xml", data: "<x>é</x>" },
+        { path: "empty", data: "" },
+        { path: "bytes.bin", data: bytes },
+      ])
+    );
+
+    expect(records.map((r) => r.path)).toEqual([
+      "a.txt",
+      "dir/ünïcode.xml",
+      "empty",
+      "bytes.bin",
+    ]);
+    expect(new TextDecoder().decode(records[1].data)).toBe("<x>é</x>");
+    expect(records[2].data.length).toBe(0);
+    expect(records[3].data).toEqual(bytes);
+    for (const record of records) {
+      expect(record.crc).toBe(Bun.hash.crc32(record.data));
+    }
+  });
+});
+
+describe("getSplitSlidesPptx", () => {
+  const slide = (index: number): PositionedCanvasBox => ({
+    id: `slide\u000b&${index}`,
+    type: "Slide",
+    x: index * 1100,
+    y: 0,
+    width: 1000,
+    height: 500,
+    children: [
+      {
+        id: `card\u0001-${index}`,
+        type: "Card",
+        tag: 7,
+        x: index * 1100 + 10,
+        y: 20,
+        width: 100,
+        height: 50,
+      },
+    ],
+  });
+
+  const records = readZip(getSplitSlidesPptx({ slides: [slide(0), slide(1)] }));
+  const parts = new Map(
+    records.map((r) => [r.path, new TextDecoder().decode(r.data)])
+  );
+
+  test("has a part for every content type override and relationship target", () => {
+    const overrides = [
+      ...parts.get("[Content_Types].xml")!.matchAll(/PartName="\/([^"]+)"/g),
+    ].map((m) => m[1]);
+    expect(overrides).toContain("ppt/slides/slide2.xml");
+    for (const name of overrides) {
+      expect(parts.has(name)).toBe(true);
+    }
+
+    for (const [path, xml] of parts) {
+      if (!path.endsWith(".rels")) continue;
+      const directory = path.replace(/_rels\/[^/]+$/, "");
+      for (const [, target] of xml.matchAll(/Target="([^"]+)"/g)) {
+        const resolved = new URL(target, `file:///${directory}`).pathname;
+        expect(parts.has(resolved.slice(1))).toBe(true);
+      }
+    }
+  });
+
+  test("places shapes relative to their slide, with markup escaped and control characters dropped", () => {
+    const slideXml = parts.get("ppt/slides/slide2.xml")!;
+    expect(slideXml).toContain(
+      `<a:off x="${10 * emuPerPx}" y="${20 * emuPerPx}"/>`
+    );
+    expect(slideXml).toContain('name="card-1"');
+    expect(slideXml).toContain('<p:cSld name="slide&amp;1">');
+    expect(slideXml).toContain("<a:t>Card 7</a:t>");
+    for (const xml of parts.values()) {
+      expect(xml).not.toMatch(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+    }
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * PowerPoint export of split slides
+ *
+ * Writes a minimal Office Open XML presentation: one slide per split slide, with every box
+ * below the slide frame as a rectangle shape labelled with its type and tag. Positions are
+ * converted from CSS px to EMU, so the slides can be checked in real presentation software.
+ */
+
+import { flattenPositionedBox, type PositionedCanvasBox } from "@/layoutEngine";
+import { getBoxStyles } from "@/boxStyles";
+import { escapeXml } from "@/xml";
+import { createZip, type ZipEntry } from "@/zip";
+
+/**English Metric Units per CSS px, at 96 px per inch */
+export const emuPerPx = 9525;
+
+const toEmu = (px: number) => Math.round(px * emuPerPx);
+
+const namespaces = {
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  p: "http://schemas.openxmlformats.org/presentationml/2006/main",
+};
+const nsAttributes = `xmlns:a="${namespaces.a}" xmlns:r="${namespaces.r}" xmlns:p="${namespaces.p}"`;
+const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const relationshipType =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const contentType = "application/vnd.openxmlformats-officedocument";
+
+function relationships(targets: Array<{ type: string; target: string }>) {
+  return (
+    xmlHeader +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    targets
+      .map(
+        ({ type, target }, i) =>
+          `<Relationship Id="rId${
+            i + 1
+          }" Type="${relationshipType}/${type}" Target="${target}"/>`
+      )
+      .join("") +
+    `</Relationships>`
+  );
+}
+
+const emptyShapeTree =
+  `<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>` +
+  `<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>`;
+
+const dashes = { solid: "solid", dashed: "dash", dotted: "sysDot" };
+
+function hex(color: string) {
+  return color.replace("#", "").toUpperCase();
+}
+
+function getShapeXml(box: PositionedCanvasBox, shapeId: number) {
+  const style = getBoxStyles(box.type);
+  const label = `${box.type} ${box.tag ?? ""}${
+    box.continuationOf ? " (continued)" : ""
+  }`.trim();
+  const paragraphs = [label, ...(box.text?.lines.map((l) => l.text) ?? [])]
+    .map(
+      (text) =>
+        `<a:p><a:r><a:rPr lang="en-US" sz="800" dirty="0"><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:rPr><a:t>${escapeXml(
+          text
+        )}</a:t></a:r></a:p>`
+    )
+    .join("");
+
+  return (
+    `<p:sp>` +
+    `<p:nvSpPr><p:cNvPr id="${shapeId}" name="${escapeXml(
+      box.id
+    )}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr>` +
+    `<a:xfrm><a:off x="${toEmu(box.x)}" y="${toEmu(box.y)}"/><a:ext cx="${toEmu(
+      box.width
+    )}" cy="${toEmu(box.height)}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+    `<a:solidFill><a:srgbClr val="${hex(style.fill)}"/></a:solidFill>` +
+    `<a:ln w="${toEmu(style.strokeWidth)}"><a:solidFill><a:srgbClr val="${hex(
+      style.stroke
+    )}"/></a:solidFill><a:prstDash val="${
+      dashes[style.borderStyle]
+    }"/></a:ln>` +
+    `</p:spPr>` +
+    `<p:txBody><a:bodyPr wrap="square" lIns="18288" tIns="18288" rIns="18288" bIns="18288" anchor="t"><a:noAutofit/></a:bodyPr><a:lstStyle/>${paragraphs}</p:txBody>` +
+    `</p:sp>`
+  );
+}
+
+/**
+ * a slide's shapes, relative to the slide frame. The frame itself is the slide, so it isn't
+ * drawn; boxes are stacked by type like the whiteboard does.
+ */
+function getSlideXml(slide: PositionedCanvasBox) {
+  const boxes = (slide.children ?? [])
+    .flatMap(flattenPositionedBox)
+    .sort((a, b) => getBoxStyles(a.type).zIndex - getBoxStyles(b.type).zIndex)
+    .map((box) => ({ ...box, x: box.x - slide.x, y: box.y - slide.y }));
+
+  return (
+    xmlHeader +
+    `<p:sld ${nsAttributes}><p:cSld name="${escapeXml(slide.id)}"><p:spTree>` +
+    emptyShapeTree +
+    // shape id 1 is the tree itself
+    boxes.map((box, i) => getShapeXml(box, i + 2)).join("") +
+    `</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+  );
+}
+
+const theme =
+  xmlHeader +
+  `<a:theme xmlns:a="${namespaces.a}" name="Layout Export">` +
+  `<a:themeElements>` +
+  `<a:clrScheme name="Layout Export">` +
+  `<a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>` +
+  `<a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>` +
+  `<a:accent1><a:srgbClr val="3B82F6"/></a:accent1><a:accent2><a:srgbClr val="F97316"/></a:accent2>` +
+  `<a:accent3><a:srgbClr val="22C55E"/></a:accent3><a:accent4><a:srgbClr val="9333EA"/></a:accent4>` +
+  `<a:accent5><a:srgbClr val="EF4444"/></a:accent5><a:accent6><a:srgbClr val="9CA3AF"/></a:accent6>` +
+  `<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink>` +
+  `</a:clrScheme>` +
+  `<a:fontScheme name="Layout Export">` +
+  `<a:majorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>` +
+  `<a:minorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>` +
+  `</a:fontScheme>` +
+  `<a:fmtScheme name="Layout Export">` +
+  `<a:fillStyleLst>${`<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>`.repeat(
+    3
+  )}</a:fillStyleLst>` +
+  `<a:lnStyleLst>${`<a:ln w="9525"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`.repeat(
+    3
+  )}</a:lnStyleLst>` +
+  `<a:effectStyleLst>${`<a:effectStyle><a:effectLst/></a:effectStyle>`.repeat(
+    3
+  )}</a:effectStyleLst>` +
+  `<a:bgFillStyleLst>${`<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>`.repeat(
+    3
+  )}</a:bgFillStyleLst>` +
+  `</a:fmtScheme>` +
+  `</a:themeElements>` +
+  `</a:theme>`;
+
+const slideMaster =
+  xmlHeader +
+  `<p:sldMaster ${nsAttributes}>` +
+  `<p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="FFFFFF"/></a:solidFill><a:effectLst/></p:bgPr></p:bg><p:spTree>${emptyShapeTree}</p:spTree></p:cSld>` +
+  `<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>` +
+  `<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>` +
+  `</p:sldMaster>`;
+
+const slideLayout =
+  xmlHeader +
+  `<p:sldLayout ${nsAttributes} type="blank" preserve="1">` +
+  `<p:cSld name="Blank"><p:spTree>${emptyShapeTree}</p:spTree></p:cSld>` +
+  `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>` +
+  `</p:sldLayout>`;
+
+/**
+ * a .pptx file of split slides. Each slide is a tree in canvas space whose root is the slide
+ * frame, as the demo draws them; the first frame sets the presentation's slide size.
+ */
+export function getSplitSlidesPptx(args: { slides: PositionedCanvasBox[] }) {
+  const { slides } = args;
+  const [firstSlide] = slides;
+  if (!firstSlide) {
+    throw new Error("a presentation needs at least one slide");
+  }
+
+  const slideNames = slides.map((_, i) => `slide${i + 1}.xml`);
+
+  const contentTypes =
+    xmlHeader +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/ppt/presentation.xml" ContentType="${contentType}.presentationml.presentation.main+xml"/>` +
+    `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${contentType}.presentationml.slideMaster+xml"/>` +
+    `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${contentType}.presentationml.slideLayout+xml"/>` +
+    `<Override PartName="/ppt/theme/theme1.xml" ContentType="${contentType}.theme+xml"/>` +
+    slideNames
+      .map(
+        (name) =>
+          `<Override PartName="/ppt/slides/${name}" ContentType="${contentType}.presentationml.slide+xml"/>`
+      )
+      .join("") +
+    `</Types>`;
+
+  // rId1 is the master, then one per slide, then the theme
+  const presentation =
+    xmlHeader +
+    `<p:presentation ${nsAttributes}>` +
+    `<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>` +
+    `<p:sldIdLst>${slideNames
+      .map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`)
+      .join("")}</p:sldIdLst>` +
+    `<p:sldSz cx="${toEmu(firstSlide.width)}" cy="${toEmu(
+      firstSlide.height
+    )}"/>` +
+    `<p:notesSz cx="6858000" cy="9144000"/>` +
+    `</p:presentation>`;
+
+  const entries: ZipEntry[] = [
+    { path: "[Content_Types].xml", data: contentTypes },
+    {
+      path: "_rels/.rels",
+      data: relationships([
+        { type: "officeDocument", target: "ppt/presentation.xml" },
+      ]),
+    },
+    { path: "ppt/presentation.xml", data: presentation },
+    {
+      path: "ppt/_rels/presentation.xml.rels",
+      data: relationships([
+        { type: "slideMaster", target: "slideMasters/slideMaster1.xml" },
+        ...slideNames.map((name) => ({
+          type: "slide",
+          target: `slides/${name}`,
+        })),
+        { type: "theme", target: "theme/theme1.xml" },
+      ]),
+    },
+    { path: "ppt/slideMasters/slideMaster1.xml", data: slideMaster },
+    {
+      path: "ppt/slideMasters/_rels/slideMaster1.xml.rels",
+      data: relationships([
+        { type: "slideLayout", target: "../slideLayouts/slideLayout1.xml" },
+        { type: "theme", target: "../theme/theme1.xml" },
+      ]),
+    },
+    { path: "ppt/slideLayouts/slideLayout1.xml", data: slideLayout },
+    {
+      path: "ppt/slideLayouts/_rels/slideLayout1.xml.rels",
+      data: relationships([
+        { type: "slideMaster", target: "../slideMasters/slideMaster1.xml" },
+      ]),
+    },
+    { path: "ppt/theme/theme1.xml", data: theme },
+    ...slides.flatMap((slide, i) => [
+      { path: `ppt/slides/${slideNames[i]}`, data: getSlideXml(slide) },
+      {
+        path: `ppt/slides/_rels/${slideNames[i]}.rels`,
+        data: relationships([
+          { type: "slideLayout", target: "../slideLayouts/slideLayout1.xml" },
+        ]),
+      },
+    ]),
+  ];
+
+  return createZip(entries);
+}
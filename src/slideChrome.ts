@@ -0,0 +1,94 @@
+/**
+ * Slide chrome: headers and footers repeated on every split slide
+ *
+ * Chrome is defined as `Box` templates. Their text can use placeholders, filled in per slide:
+ * `{slideNumber}`, `{slideCount}`, and `{continued}`, which is the continued label on every
+ * slide but the first.
+ */
+
+import {
+  getPositionedBoxes,
+  type Box,
+  type LayoutBackend,
+  type PositionedCanvasBox,
+} from "@/layoutEngine";
+
+export interface SlideChrome {
+  /**laid out across the top of the split container, above the rows */
+  header?: Box;
+  /**laid out across the bottom of the split container, below the rows */
+  footer?: Box;
+  /**defaults to "(continued)" */
+  continuedLabel?: string;
+  layoutBackend?: LayoutBackend;
+}
+
+/**a header or footer laid out for one slide */
+export interface PositionedChrome {
+  box: PositionedCanvasBox;
+  /**the height it takes from the rows, margins included */
+  height: number;
+}
+
+/**the template with its placeholders filled in, and ids made unique to the slide */
+export function fillChromePlaceholders(args: {
+  box: Box;
+  slideIndex: number;
+  slideCount: number;
+  continuedLabel?: string;
+}): Box {
+  const { box, slideIndex, slideCount, continuedLabel = "(continued)" } = args;
+  const values: Record<string, string> = {
+    slideNumber: String(slideIndex + 1),
+    slideCount: String(slideCount),
+    continued: slideIndex === 0 ? "" : continuedLabel,
+  };
+
+  const fill = (b: Box): Box => ({
+    ...b,
+    id: `${b.id}-${slideIndex + 1}`,
+    text: b.text && {
+      ...b.text,
+      content: b.text.content
+        .replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match)
+        .trim(),
+    },
+    children: b.children?.map(fill),
+  });
+  return fill(box);
+}
+
+/**
+ * lays out one slide's header and footer at the split container's width, each on its own, so
+ * they sit at the origin. The split engine moves them to the container's edges.
+ */
+export function layoutSlideChrome(args: {
+  chrome: SlideChrome;
+  width: number;
+  slideIndex: number;
+  slideCount: number;
+}): { header?: PositionedChrome; footer?: PositionedChrome } {
+  const { chrome, width, slideIndex, slideCount } = args;
+
+  const layout = (template: Box | undefined): PositionedChrome | undefined => {
+    if (!template) return undefined;
+    const box = fillChromePlaceholders({
+      box: template,
+      slideIndex,
+      slideCount,
+      continuedLabel: chrome.continuedLabel,
+    });
+    const layoutRoot = getPositionedBoxes({
+      rootBox: {
+        id: `${box.id}-chrome-root`,
+        type: "Slide Chrome",
+        css: `width: ${width}px`,
+        children: [box],
+      },
+      backend: chrome.layoutBackend,
+    });
+    return { box: layoutRoot.children![0], height: layoutRoot.height };
+  };
+
+  return { header: layout(chrome.header), footer: layout(chrome.footer) };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import type { PositionedCanvasBox } from "@/layoutEngine";
+import { createSpatialIndex } from "@/spatialIndex";
+
+/**a slide with a Group Card listed after the cards that overlap it, and two overlapping cards */
+function getSlide(x: number): PositionedCanvasBox {
+  return {
+    id: "slide",
+    type: "Slide",
+    x,
+    y: 0,
+    width: 1000,
+    height: 500,
+    children: [
+      { id: "card-a", type: "Card", x: x + 10, y: 10, width: 100, height: 50 },
+      { id: "card-b", type: "Card", x: x + 60, y: 30, width: 100, height: 50 },
+      {
+        id: "group",
+        type: "Group Card",
+        x: x + 0,
+        y: 0,
+        width: 200,
+        height: 100,
+      },
+      { id: "far", type: "Card", x: x + 800, y: 400, width: 50, height: 50 },
+    ],
+  };
+}
+
+describe("createSpatialIndex", () => {
+  // small cells, so the slides skip the grid and the cards span several cells
+  const roots = [getSlide(0), getSlide(1100)];
+  const index = createSpatialIndex({ roots, cellSize: 32 });
+
+  test("indexes every box of every tree", () => {
+    expect(index.size).toBe(10);
+  });
+
+  test("hits come topmost first: higher z-index, then later in tree order", () => {
+    expect(index.queryPoint(80, 40).map((b) => b.id)).toEqual([
+      "card-b",
+      "card-a",
+      "group",
+      "slide",
+    ]);
+    expect(index.queryPoint(5, 5).map((b) => b.id)).toEqual(["group", "slide"]);
+    expect(index.queryPoint(1050, 5)).toEqual([]);
+  });
+
+  test("rect queries return each box once, from the trees they touch", () => {
+    const hits = index.queryRect({ x: 700, y: 350, width: 500, height: 100 });
+    expect(hits.map((b) => b.id)).toEqual(["far", "slide", "slide"]);
+    expect(new Set(hits).size).toBe(hits.length);
+    expect(hits[0]).toBe(roots[0].children![3]);
+  });
+
+  test("nearest finds the closest box and its distance", () => {
+    const far = roots[0].children![3];
+    const isCard = (b: PositionedCanvasBox) => b.type === "Card";
+    // the slide contains the point too, and the card is above it
+    expect(index.nearest(825, 425)).toEqual({ box: far, distance: 0 });
+    expect(index.nearest(870, 425, { filter: isCard })).toEqual({
+      box: far,
+      distance: 20,
+    });
+    expect(
+      index.nearest(870, 425, { filter: isCard, maxDistance: 10 })
+    ).toBeUndefined();
+  });
+
+  test("has compares boxes by identity, since ids repeat across trees", () => {
+    expect(index.has(roots[1].children![0])).toBe(true);
+    expect(index.has({ ...roots[1].children![0] })).toBe(false);
+  });
+
+  test("keys find the same box again in a new layout of the trees", () => {
+    const key = index.getKey(roots[1].children![1])!;
+    expect(key).toEqual({ rootIndex: 1, id: "card-b" });
+    expect(index.getBox(key)).toBe(roots[1].children![1]);
+
+    const relaidOut = [getSlide(0), getSlide(1100)];
+    const next = createSpatialIndex({ roots: relaidOut, cellSize: 32 });
+    expect(next.getBox(key)).toBe(relaidOut[1].children![1]);
+    expect(next.getBox({ rootIndex: 2, id: "card-b" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Spatial index over positioned boxes
+ *
+ * A uniform grid in canvas space: each box is listed in every cell it overlaps, so a query only
+ * looks at the boxes near it. Boxes covering too many cells (slides, the wrapping row) are kept
+ * in a separate list and always checked, so they don't fill the grid.
+ */
+
+import { flattenPositionedBox, type PositionedCanvasBox } from "@/layoutEngine";
+import { getBoxStyles } from "@/boxStyles";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**a box by where it is rather than by identity: the index of its tree, and its id, which is unique within one tree */
+export interface BoxKey {
+  rootIndex: number;
+  id: string;
+}
+
+export interface SpatialIndex {
+  /**number of indexed boxes */
+  size: number;
+  /**whether the box is one of the indexed boxes. Ids can repeat across trees, so boxes are compared by identity */
+  has(box: PositionedCanvasBox): boolean;
+  /**where an indexed box is, to find it again after a relayout replaces the boxes */
+  getKey(box: PositionedCanvasBox): BoxKey | undefined;
+  /**the indexed box at the key */
+  getBox(key: BoxKey): PositionedCanvasBox | undefined;
+  /**boxes containing the point, topmost first */
+  queryPoint(x: number, y: number): PositionedCanvasBox[];
+  /**boxes intersecting the rect, topmost first */
+  queryRect(rect: Rect): PositionedCanvasBox[];
+  /**the box closest to the point, with the distance to its edge (0 when inside) */
+  nearest(
+    x: number,
+    y: number,
+    options?: {
+      maxDistance?: number;
+      filter?: (box: PositionedCanvasBox) => boolean;
+    }
+  ): { box: PositionedCanvasBox; distance: number } | undefined;
+}
+
+/**boxes spanning more cells than this skip the grid */
+const maxCellsPerBox = 64;
+
+function getDistanceToBox(box: PositionedCanvasBox, x: number, y: number) {
+  const dx = Math.max(box.x - x, 0, x - (box.x + box.width));
+  const dy = Math.max(box.y - y, 0, y - (box.y + box.height));
+  return Math.hypot(dx, dy);
+}
+
+function intersects(box: PositionedCanvasBox, rect: Rect) {
+  return (
+    box.x <= rect.x + rect.width &&
+    box.y <= rect.y + rect.height &&
+    box.x + box.width >= rect.x &&
+    box.y + box.height >= rect.y
+  );
+}
+
+/**
+ * indexes every box in the trees. "Topmost" follows the renderers: higher type z-index first,
+ * then later in tree order.
+ */
+export function createSpatialIndex(args: {
+  roots: PositionedCanvasBox[];
+  /**grid cell size in canvas px */
+  cellSize?: number;
+}): SpatialIndex {
+  const { roots, cellSize = 256 } = args;
+
+  const keys = new Map<PositionedCanvasBox, BoxKey>();
+  const boxesByKey = new Map<string, PositionedCanvasBox>();
+  const boxes = roots
+    .flatMap((root, rootIndex) =>
+      flattenPositionedBox(root).map((box) => {
+        keys.set(box, { rootIndex, id: box.id });
+        boxesByKey.set(`${rootIndex}/${box.id}`, box);
+        return box;
+      })
+    )
+    .sort((a, b) => getBoxStyles(a.type).zIndex - getBoxStyles(b.type).zIndex);
+
+  const cells = new Map<string, number[]>();
+  const largeBoxes: number[] = [];
+  const bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+
+  const toCell = (value: number) => Math.floor(value / cellSize);
+  const cellKey = (column: number, row: number) => `${column},${row}`;
+
+  boxes.forEach((box, i) => {
+    const minColumn = toCell(box.x);
+    const minRow = toCell(box.y);
+    const maxColumn = toCell(box.x + box.width);
+    const maxRow = toCell(box.y + box.height);
+    bounds.minX = Math.min(bounds.minX, minColumn);
+    bounds.minY = Math.min(bounds.minY, minRow);
+    bounds.maxX = Math.max(bounds.maxX, maxColumn);
+    bounds.maxY = Math.max(bounds.maxY, maxRow);
+
+    if ((maxColumn - minColumn + 1) * (maxRow - minRow + 1) > maxCellsPerBox) {
+      largeBoxes.push(i);
+      return;
+    }
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = cellKey(column, row);
+        const cell = cells.get(key);
+        if (cell) {
+          cell.push(i);
+        } else {
+          cells.set(key, [i]);
+        }
+      }
+    }
+  });
+
+  /**box indices in a block of cells plus the large boxes, without duplicates */
+  const getCandidates = (
+    minColumn: number,
+    minRow: number,
+    maxColumn: number,
+    maxRow: number
+  ) => {
+    const candidates = new Set(largeBoxes);
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        for (const i of cells.get(cellKey(column, row)) ?? []) {
+          candidates.add(i);
+        }
+      }
+    }
+    return candidates;
+  };
+
+  const topmostFirst = (indices: Iterable<number>) =>
+    [...indices].sort((a, b) => b - a).map((i) => boxes[i]);
+
+  const queryRect = (rect: Rect) =>
+    topmostFirst(
+      [
+        ...getCandidates(
+          toCell(rect.x),
+          toCell(rect.y),
+          toCell(rect.x + rect.width),
+          toCell(rect.y + rect.height)
+        ),
+      ].filter((i) => intersects(boxes[i], rect))
+    );
+
+  return {
+    size: boxes.length,
+    has: (box) => keys.has(box),
+    getKey: (box) => keys.get(box),
+    getBox: (key) => boxesByKey.get(`${key.rootIndex}/${key.id}`),
+    queryPoint: (x, y) => queryRect({ x, y, width: 0, height: 0 }),
+    queryRect,
+    nearest(x, y, options = {}) {
+      const { maxDistance = Infinity, filter = () => true } = options;
+      let best: { index: number; distance: number } | undefined;
+      const consider = (i: number) => {
+        const box = boxes[i];
+        if (!filter(box)) return;
+        const distance = getDistanceToBox(box, x, y);
+        // ties go to the topmost box
+        if (
+          distance <= maxDistance &&
+          (!best ||
+            distance < best.distance ||
+            (distance === best.distance && i > best.index))
+        ) {
+          best = { index: i, distance };
+        }
+      };
+
+      largeBoxes.forEach(consider);
+
+      // search rings of cells outwards until no unvisited cell can hold a closer box
+      const column = toCell(x);
+      const row = toCell(y);
+      const maxRing = Math.max(
+        column - bounds.minX,
+        bounds.maxX - column,
+        row - bounds.minY,
+        bounds.maxY - row
+      );
+      const seen = new Set<number>();
+      for (let ring = 0; ring <= maxRing; ring++) {
+        const ringDistance = (ring - 1) * cellSize;
+        if (best && best.distance <= ringDistance) break;
+        if (ringDistance > maxDistance) break;
+        for (let c = column - ring; c <= column + ring; c++) {
+          for (let r = row - ring; r <= row + ring; r++) {
+            const isOnRing =
+              Math.abs(c - column) === ring || Math.abs(r - row) === ring;
+            if (!isOnRing) continue;
+            for (const i of cells.get(cellKey(c, r)) ?? []) {
+              if (seen.has(i)) continue;
+              seen.add(i);
+              consider(i);
+            }
+          }
+        }
+      }
+      return best && { box: boxes[best.index], distance: best.distance };
+    },
+  };
+}
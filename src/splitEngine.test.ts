@@ -0,0 +1,458 @@
+import { describe, expect, test } from "bun:test";
+import {
+  flattenPositionedBox,
+  flexPresets,
+  getPositionedBoxes,
+  type Box,
+  type PositionedCanvasBox,
+} from "@/layoutEngine";
+import {
+  edgeCaseFixtures,
+  getLayoutOutline,
+  getPresetFixture,
+  getRegionedPresetFixture,
+  type FlexPresetName,
+} from "@/layoutFixtures";
+import {
+  splitChildrenOfRootBox,
+  splitContainersInLockstep,
+  type SplitDirection,
+  type SplitPolicy,
+  type SplitTrace,
+} from "@/splitEngine";
+import type { SlideChrome } from "@/slideChrome";
+import { getWrappingRows } from "@/templateCompiler";
+import { getSplitFuzzRootBox } from "@/splitFuzz";
+import { getSplitInvariantViolations } from "@/splitInvariants";
+
+const directions: SplitDirection[] = ["vertical", "horizontal", "both"];
+
+const chromeTextStyle = { font: "14px sans-serif", lineHeight: 18 };
+const chrome: SlideChrome = {
+  header: {
+    id: "header",
+    type: "Slide Chrome",
+    css: "padding: 8px; margin-bottom: 10px;",
+    text: { ...chromeTextStyle, content: "Groups {continued}" },
+  },
+  footer: {
+    id: "footer",
+    type: "Slide Chrome",
+    css: "padding: 4px;",
+    text: { ...chromeTextStyle, content: "{slideNumber} of {slideCount}" },
+  },
+  layoutBackend: "solver",
+};
+
+/**lays out the slide and splits its wrapping row, the way the demo does */
+function getSplit(rootBox: Box, direction: SplitDirection) {
+  const positioned = getPositionedBoxes({ rootBox, backend: "solver" });
+  const wrappingRow = positioned.children![0];
+  const slides = splitChildrenOfRootBox({
+    rootBox: wrappingRow,
+    direction,
+    breakGroupCards: {
+      sourceBox: rootBox.children![0],
+      layoutBackend: "solver",
+    },
+  });
+  const violations = slides
+    ? getSplitInvariantViolations({
+        rootBox: wrappingRow,
+        slides,
+        slideBounds: {
+          x: 0,
+          y: 0,
+          width: positioned.width,
+          height: positioned.height,
+        },
+        direction,
+      })
+    : [];
+  return { slides, violations };
+}
+
+/**only the boxes placed on each slide; their contents are covered by the layout goldens */
+function getSlidesOutline(slides: PositionedCanvasBox[][]) {
+  return slides.map((slide) =>
+    getLayoutOutline(slide.map(({ children: _, ...box }) => box))
+  );
+}
+
+describe("splitChildrenOfRootBox", () => {
+  for (const preset of Object.keys(flexPresets) as FlexPresetName[]) {
+    for (const direction of directions) {
+      test(`${preset} preset, ${direction}`, () => {
+        const { slides, violations } = getSplit(
+          getPresetFixture({ preset }),
+          direction
+        );
+        expect(violations).toEqual([]);
+        expect(getSlidesOutline(slides!)).toMatchSnapshot();
+      });
+    }
+  }
+
+  test("returns null without children to split", () => {
+    expect(
+      getSplit(edgeCaseFixtures.emptyWrappingRow, "vertical").slides
+    ).toBeNull();
+  });
+
+  test("keeps an empty Group Card", () => {
+    const { slides, violations } = getSplit(
+      edgeCaseFixtures.emptyGroupCard,
+      "vertical"
+    );
+    expect(violations).toEqual([]);
+    expect(slides!.flat().some((b) => b.id === "group-1")).toBe(true);
+    expect(getSlidesOutline(slides!)).toMatchSnapshot();
+  });
+
+  test("puts a card taller than the slide on a slide of its own", () => {
+    const { slides, violations } = getSplit(
+      edgeCaseFixtures.giantCard,
+      "vertical"
+    );
+    expect(violations).toEqual([]);
+    const giantSlide = slides!.find((slide) =>
+      slide.some((b) => b.id === "card-giant")
+    );
+    expect(giantSlide?.map((b) => b.id)).toEqual(["card-giant"]);
+    expect(getSlidesOutline(slides!)).toMatchSnapshot();
+  });
+
+  for (const direction of directions) {
+    test(`negative margins, ${direction}`, () => {
+      const { slides, violations } = getSplit(
+        edgeCaseFixtures.negativeMargins,
+        direction
+      );
+      expect(violations).toEqual([]);
+      expect(getSlidesOutline(slides!)).toMatchSnapshot();
+    });
+  }
+
+  test("reflowed slides keep box models when asked for them", () => {
+    const rootBox = getPresetFixture({ preset: "flexRow" });
+    const wrappingRow = getPositionedBoxes({
+      rootBox,
+      backend: "solver",
+      includeBoxModel: true,
+    }).children![0];
+    const slides = splitChildrenOfRootBox({
+      rootBox: wrappingRow,
+      reflow: {
+        sourceBox: rootBox.children![0],
+        layoutBackend: "solver",
+        includeBoxModel: true,
+      },
+    });
+
+    const boxes = slides!.flat().flatMap(flattenPositionedBox);
+    expect(boxes.length).toBeGreaterThan(0);
+    expect(boxes.every((b) => b.boxModel !== undefined)).toBe(true);
+    // the border box is the box itself, wherever the reflow put it
+    expect(
+      boxes.every(
+        (b) => b.boxModel!.border.x === b.x && b.boxModel!.border.y === b.y
+      )
+    ).toBe(true);
+  });
+});
+
+describe("split policies", () => {
+  /**nine rows of three 100px cards, four rows to a slide when filled greedily */
+  const rootBox = getSplitFuzzRootBox({
+    maxHeight: 400,
+    rowEpsilonPx: 0,
+    boxes: Array.from({ length: 27 }, (_, i) => ({
+      id: `r${Math.floor(i / 3)}-${i % 3}`,
+      row: Math.floor(i / 3),
+      x: (i % 3) * 110,
+      y: Math.floor(i / 3) * 100,
+      width: 100,
+      height: 100,
+    })),
+  });
+  const getRowsPerSlide = (policy?: SplitPolicy) =>
+    splitChildrenOfRootBox({ rootBox, rowEpsilonPx: 0, policy })!.map(
+      (slide) => slide.length / 3
+    );
+
+  test("greedy fills each slide", () => {
+    expect(getRowsPerSlide()).toEqual([4, 4, 1]);
+  });
+
+  test("balanced evens out rows over the same number of slides", () => {
+    expect(getRowsPerSlide({ strategy: "balanced" })).toEqual([3, 3, 3]);
+  });
+
+  test("fill then balance evens out the last two slides", () => {
+    expect(getRowsPerSlide({ strategy: "fill-then-balance" })).toEqual([
+      4, 3, 2,
+    ]);
+  });
+
+  test("minimum rows per slide takes rows from the slide before", () => {
+    expect(getRowsPerSlide({ minRowsPerSlide: 2 })).toEqual([4, 3, 2]);
+    expect(getRowsPerSlide({ minRowsPerSlide: 3 })).toEqual([3, 3, 3]);
+  });
+
+  test("minimum last slide items keeps a lone row company", () => {
+    expect(getRowsPerSlide({ minLastSlideItems: 4 })).toEqual([4, 3, 2]);
+    // a minimum that can't be met leaves the greedy split
+    expect(getRowsPerSlide({ minLastSlideItems: 27 })).toEqual([4, 4, 1]);
+  });
+
+  test("traces breaks the policy moved earlier", () => {
+    let trace: SplitTrace | undefined;
+    splitChildrenOfRootBox({
+      rootBox,
+      rowEpsilonPx: 0,
+      policy: { strategy: "balanced" },
+      onTrace: (t) => {
+        trace = t;
+      },
+    });
+    expect(trace!.passes[0].rows.flatMap((r) => r.breakReason ?? [])).toEqual([
+      "policy",
+      "policy",
+    ]);
+  });
+});
+
+describe("slide chrome", () => {
+  const rootBox = getPresetFixture({ preset: "flexColumn" });
+  const positioned = getPositionedBoxes({ rootBox, backend: "solver" });
+  const wrappingRow = positioned.children![0];
+
+  for (const reflow of [false, true]) {
+    test(`repeats a header and footer clear of the rows${
+      reflow ? ", reflowed" : ""
+    }`, () => {
+      const slides = splitChildrenOfRootBox({
+        rootBox: wrappingRow,
+        reflow: reflow
+          ? { sourceBox: rootBox.children![0], layoutBackend: "solver" }
+          : undefined,
+        chrome,
+      })!;
+      expect(slides.length).toBeGreaterThan(1);
+      expect(
+        getSplitInvariantViolations({
+          rootBox: wrappingRow,
+          slides,
+          slideBounds: wrappingRow,
+          direction: "vertical",
+        })
+      ).toEqual([]);
+
+      slides.forEach((slide, i) => {
+        const header = slide[0];
+        const footer = slide.at(-1)!;
+        const rows = slide.slice(1, -1);
+        expect(header.id).toBe(`header-${i + 1}`);
+        expect(header.text?.lines.map((l) => l.text).join(" ")).toBe(
+          i === 0 ? "Groups" : "Groups (continued)"
+        );
+        expect(footer.text?.lines.map((l) => l.text).join(" ")).toBe(
+          `${i + 1} of ${slides.length}`
+        );
+        expect(header.y).toBe(wrappingRow.y);
+        expect(footer.y + footer.height).toBe(
+          wrappingRow.y + wrappingRow.height
+        );
+        for (const box of rows) {
+          expect(box.y).toBeGreaterThanOrEqual(header.y + header.height);
+          expect(box.y + box.height).toBeLessThanOrEqual(footer.y);
+        }
+      });
+    });
+  }
+
+  // the timeline's cards stretch to the container's height, so they only fit below the header
+  // when they're laid out again
+  describe("horizontal splits", () => {
+    const timeline = getPresetFixture({ preset: "timeline" });
+    const timelineRow = getPositionedBoxes({
+      rootBox: timeline,
+      backend: "solver",
+    }).children![0];
+
+    test("lay reflowed slides out between the header and footer", () => {
+      const slides = splitChildrenOfRootBox({
+        rootBox: timelineRow,
+        direction: "horizontal",
+        reflow: { sourceBox: timeline.children![0], layoutBackend: "solver" },
+        chrome,
+      })!;
+      expect(slides.length).toBeGreaterThan(1);
+      expect(
+        getSplitInvariantViolations({
+          rootBox: timelineRow,
+          slides,
+          slideBounds: timelineRow,
+          direction: "horizontal",
+        })
+      ).toEqual([]);
+
+      for (const slide of slides) {
+        const header = slide[0];
+        const footer = slide.at(-1)!;
+        expect(footer.y + footer.height).toBe(
+          timelineRow.y + timelineRow.height
+        );
+        for (const box of slide.slice(1, -1)) {
+          expect(box.y).toBeGreaterThanOrEqual(header.y + header.height);
+          expect(box.y + box.height).toBeLessThanOrEqual(footer.y);
+        }
+      }
+    });
+
+    test("cut rows off at the footer without reflow, and trace them", () => {
+      let trace: SplitTrace | undefined;
+      const slides = splitChildrenOfRootBox({
+        rootBox: timelineRow,
+        direction: "horizontal",
+        chrome,
+        onTrace: (t) => (trace = t),
+      })!;
+      const unchromed = splitChildrenOfRootBox({
+        rootBox: timelineRow,
+        direction: "horizontal",
+      })!;
+      expect(
+        slides.map((slide) => slide.slice(1, -1).map((b) => b.id))
+      ).toEqual(unchromed.map((slide) => slide.map((b) => b.id)));
+
+      // the rows move down by the header's reserved height, margin included
+      const shift = slides[0][1].y - unchromed[0][0].y;
+      expect(shift).toBeGreaterThanOrEqual(slides[0][0].height);
+      const clippedBoxIds: string[] = [];
+      slides.forEach((slide, i) => {
+        const footer = slide.at(-1)!;
+        slide.slice(1, -1).forEach((box, j) => {
+          const unclipped = unchromed[i][j];
+          expect(box.y).toBe(unclipped.y + shift);
+          for (const b of flattenPositionedBox(box)) {
+            expect(b.y + b.height).toBeLessThanOrEqual(footer.y);
+          }
+          if (unclipped.y + shift + unclipped.height > footer.y) {
+            clippedBoxIds.push(box.id);
+            expect(box.y + box.height).toBe(footer.y);
+          }
+        });
+      });
+      expect(clippedBoxIds.length).toBeGreaterThan(0);
+      expect(trace?.clippedBoxIds).toEqual(clippedBoxIds);
+    });
+  });
+});
+
+describe("lockstep splitting", () => {
+  const rootBox = getRegionedPresetFixture({
+    preset: "flexColumn",
+    groupCounts: [24, 6],
+  });
+  const positioned = getPositionedBoxes({ rootBox, backend: "solver" });
+  const containers = getWrappingRows(positioned).map((container, i) => ({
+    rootBox: container,
+    breakGroupCards: {
+      sourceBox: getWrappingRows(rootBox)[i],
+      layoutBackend: "solver" as const,
+    },
+  }));
+
+  test("slide N holds the Nth slide of every container", () => {
+    const slides = splitContainersInLockstep({ containers })!;
+    const [todo, done] = [0, 1].map((i) =>
+      slides.map((slide) =>
+        slide.filter((b) => b.id.startsWith(`region-${i}-`))
+      )
+    );
+    expect(slides.length).toBe(20);
+    expect(todo.every((boxes) => boxes.length > 0)).toBe(true);
+    // done runs out after four slides, and its region stays empty
+    expect(done.map((boxes) => boxes.length > 0)).toEqual(
+      slides.map((_, i) => i < 4)
+    );
+
+    // both regions start their slide at the same offset
+    done.slice(0, 4).forEach((boxes, i) => {
+      expect(boxes[0].y).toBe(todo[i][0].y);
+    });
+  });
+
+  test("each container's slides keep the split invariants", () => {
+    const slides = splitContainersInLockstep({ containers })!;
+    getWrappingRows(positioned).forEach((container, i) => {
+      const ownSlides = slides.map((slide) =>
+        slide.filter((b) => b.id.startsWith(`region-${i}-`))
+      );
+      expect(
+        getSplitInvariantViolations({
+          rootBox: container,
+          slides: ownSlides.filter((slide) => slide.length > 0),
+          slideBounds: {
+            x: 0,
+            y: 0,
+            width: positioned.width,
+            height: positioned.height,
+          },
+          direction: "vertical",
+        })
+      ).toEqual([]);
+    });
+  });
+
+  test("deck chrome spans the regions on every slide and counts all of them", () => {
+    const slides = splitContainersInLockstep({ containers, chrome })!;
+    const [regions] = positioned.children!;
+    expect(slides.length).toBeGreaterThan(1);
+    // the shorter region runs out, and the header stays
+    expect(slides.at(-1)!.some((b) => b.id.startsWith("region-1-"))).toBe(
+      false
+    );
+
+    slides.forEach((slide, i) => {
+      const header = slide[0];
+      const footer = slide.at(-1)!;
+      expect(header.id).toBe(`header-${i + 1}`);
+      expect(header).toMatchObject({
+        x: regions.x,
+        y: regions.y,
+        width: regions.width,
+      });
+      expect(footer.text?.lines.map((l) => l.text).join(" ")).toBe(
+        `${i + 1} of ${slides.length}`
+      );
+      expect(footer.y + footer.height).toBe(regions.y + regions.height);
+      for (const box of slide.slice(1, -1)) {
+        expect(box.id).toMatch(/^region-[01]-/);
+        expect(box.y).toBeGreaterThanOrEqual(header.y + header.height);
+        expect(box.y + box.height).toBeLessThanOrEqual(footer.y);
+      }
+    });
+  });
+
+  test("a container with nothing to split leaves the others as they are", () => {
+    const empty = getRegionedPresetFixture({
+      preset: "flexColumn",
+      groupCounts: [0, 6],
+    });
+    const emptyPositioned = getPositionedBoxes({
+      rootBox: empty,
+      backend: "solver",
+    });
+    const [emptyContainer, container] = getWrappingRows(emptyPositioned);
+    expect(
+      splitContainersInLockstep({
+        containers: [{ rootBox: emptyContainer }, { rootBox: container }],
+      })
+    ).toEqual(splitChildrenOfRootBox({ rootBox: container }));
+    expect(
+      splitContainersInLockstep({ containers: [{ rootBox: emptyContainer }] })
+    ).toBeNull();
+  });
+});
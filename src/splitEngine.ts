@@ -1,4 +1,11 @@
-import type { PositionedCanvasBox, Box } from "@/layoutEngine";
+import {
+  getPositionedBoxes,
+  type PositionedCanvasBox,
+  type Box,
+  type LayoutBackend,
+} from "@/layoutEngine";
+import { translateBoxModel } from "@/boxModel";
+import { layoutSlideChrome, type SlideChrome } from "@/slideChrome";
 
 type PositionedBoxRelativeToSlide = PositionedCanvasBox & {
   brand: "__relative";
@@ -11,79 +18,1150 @@ export function getTranslatedBox(
     ...b,
     x: b.x + translateVec[0],
     y: b.y + translateVec[1],
+    text: b.text && {
+      ...b.text,
+      lines: b.text.lines.map((l) => ({
+        ...l,
+        x: l.x + translateVec[0],
+        y: l.y + translateVec[1],
+      })),
+    },
+    boxModel:
+      b.boxModel &&
+      translateBoxModel(b.boxModel, translateVec[0], translateVec[1]),
     children: b.children?.map((c) => getTranslatedBox(c, translateVec)),
   } as PositionedBoxRelativeToSlide;
 }
 
+/**"horizontal" splits into columns against the container width, "both" tiles into a grid of slides */
+export type SplitDirection = "vertical" | "horizontal" | "both";
+
+export type SplitAxis = "x" | "y";
+
+/**
+ * why a row starts a new slide: it didn't fit below the rows before it, it continues Group Cards
+ * broken on the previous slide, it's the first part of a broken row and there wasn't room for
+ * a row of values on the current slide, or the split policy broke before it would have had to
+ */
+export type SplitBreakReason =
+  | "overflow"
+  | "continuation"
+  | "no-room-to-break"
+  | "policy";
+
+/**
+ * "greedy" fills each slide before starting the next. "balanced" evens out the rows per slide
+ * over as many slides as greedy needs, and "fill-then-balance" fills slides greedily, then
+ * evens out the last two.
+ */
+export type SplitStrategy = "greedy" | "balanced" | "fill-then-balance";
+
+/**
+ * how rows are shared out between slides. Policies only break earlier; they never add a slide to
+ * a pass. "both" can still end up with more tiles, since the rows moved tile differently
+ */
+export interface SplitPolicy {
+  /**defaults to "greedy" */
+  strategy?: SplitStrategy;
+  /**evens out the last slides when one would hold fewer rows */
+  minRowsPerSlide?: number;
+  /**evens out the last slides when the last would hold fewer boxes, so one card isn't left alone */
+  minLastSlideItems?: number;
+}
+
+/**top and bottom run along the split axis, so they are left and right edges when splitting into columns */
+type Row = {
+  top: number;
+  bottom: number;
+  boxes: Array<PositionedCanvasBox>;
+  /**rows of broken Group Cards can start a new slide regardless of size */
+  startsNewSlide?: Exclude<SplitBreakReason, "overflow" | "policy">;
+  /**
+   * set on the last fragment row of a broken row, to how much shorter it ended than the row,
+   * so the rows after it keep their gap
+   */
+  shiftAfter?: number;
+};
+
+/**a row as it was placed, in the unsplit layout's coordinates along the pass's axis */
+export interface SplitTraceRow {
+  top: number;
+  bottom: number;
+  boxIds: string[];
+  slideIndex: number;
+  /**set when the row starts a slide after the first */
+  breakReason?: SplitBreakReason;
+  /**space the row needed, from its slide's upper edge to its bottom */
+  neededSize: number;
+}
+
+export interface SplitTracePass {
+  axis: SplitAxis;
+  /**slide size along the axis */
+  maxSize: number;
+  rows: SplitTraceRow[];
+  slides: Array<{ usedSize: number; leftoverSize: number }>;
+}
+
+export interface SplitTrace {
+  direction: SplitDirection;
+  rowEpsilonPx: number;
+  /**
+   * one per pagination. "both" runs the vertical pass, then a horizontal pass per vertical
+   * slide; slide indices are local to their pass.
+   */
+  passes: SplitTracePass[];
+  /**slide boxes of a horizontal split that ran into the footer and were cut off at it */
+  clippedBoxIds?: string[];
+}
+
+function getRows(
+  boxes: Array<PositionedCanvasBox>,
+  rowEpsilonPx: number,
+  axis: SplitAxis = "y"
+): Array<Row> {
+  if (boxes.length > 0 && boxes.every((b) => b.gridArea)) {
+    return getGridTrackRows(boxes, axis);
+  }
+
+  const rows: Array<Row> = [];
+
+  for (const box of boxes) {
+    const top = axis === "y" ? box.y : box.x;
+    const bottom = top + (axis === "y" ? box.height : box.width);
+    const last = rows.at(-1);
+
+    if (last && Math.abs(top - last.top) <= rowEpsilonPx) {
+      last.boxes.push(box);
+      last.bottom = Math.max(last.bottom, bottom);
+    } else {
+      rows.push({ top, bottom, boxes: [box] });
+    }
+  }
+
+  return rows;
+}
+
 export function splitChildrenOfRootBox(args: {
   rootBox: PositionedCanvasBox;
-  /**y-value tolerance for putting boxes into the same row  */
+  /**tolerance for putting boxes into the same row (or column, when splitting horizontally) */
   rowEpsilonPx?: number;
+  /**defaults to "vertical" */
+  direction?: SplitDirection;
+  /**
+   * when set, Group Cards too tall for a slide are broken between rows of their Distinct Field Values
+   * into continuation Group Cards on the following slides. sourceBox is the Box rootBox was laid out from.
+   */
+  breakGroupCards?: {
+    sourceBox: Box;
+    layoutBackend?: LayoutBackend;
+  };
+  /**
+   * when set, each slide's boxes are laid out again in a copy of sourceBox instead of being
+   * translated from the unsplit layout, so justify/align and centering match a template render
+   */
+  reflow?: {
+    sourceBox: Box;
+    layoutBackend?: LayoutBackend;
+    /**keeps box models on reflowed slides, for overlays; translated slides keep the unsplit ones */
+    includeBoxModel?: boolean;
+  };
+  /**defaults to greedy, with no minimums */
+  policy?: SplitPolicy;
+  /**
+   * a header and footer repeated on every slide, added to each slide's boxes. Their height is
+   * reserved before rows are placed, and reflowed slides are laid out at the height left between
+   * them. Horizontal splits don't place rows by height, so without reflow the rows that would run
+   * into the footer are cut off at it, and reported in the trace.
+   */
+  chrome?: SlideChrome;
+  /**reports the rows each pass detected, where it broke between slides and why */
+  onTrace?: (trace: SplitTrace) => void;
 }): Array<Array<PositionedCanvasBox>> | null {
-  const { rootBox: positionedBox, rowEpsilonPx = 1 } = args;
+  const { rootBox: positionedBox, chrome, onTrace } = args;
 
   const boxesToSplit = positionedBox.children;
   if (!boxesToSplit || boxesToSplit?.length === 0) {
     return null;
   }
 
+  if (!chrome) {
+    const { slides, trace } = splitBetweenChrome(args, {
+      header: 0,
+      footer: 0,
+    });
+    if (onTrace && trace) {
+      onTrace(trace);
+    }
+    return slides;
+  }
+
+  const {
+    results: [result],
+    slideChrome,
+  } = splitWithChrome({
+    chrome,
+    width: positionedBox.width,
+    slideCount: boxesToSplit.length,
+    split: (reserved) => [splitBetweenChrome(args, reserved)],
+  });
+  if (onTrace && result.trace) {
+    onTrace(result.trace);
+  }
+
+  return result.slides.map((slide, i) =>
+    placeChrome({ slide, slideChrome: slideChrome[i], frame: positionedBox })
+  );
+}
+
+/**
+ * splits several sibling containers in lockstep, each with its own options, so slide N holds the
+ * Nth slide of every container. A container that runs out before the others leaves its region
+ * empty on the remaining slides. A container's own chrome counts only its own slides and goes
+ * with its region; deck chrome goes on every slide instead.
+ */
+export function splitContainersInLockstep(args: {
+  containers: Array<Parameters<typeof splitChildrenOfRootBox>[0]>;
+  /**
+   * a header and footer on every slide, across the containers' combined bounds, with placeholders
+   * counting all of the slides. The same heights are reserved in every container, and the
+   * containers' own chrome is left out.
+   */
+  chrome?: SlideChrome;
+}): Array<Array<PositionedCanvasBox>> | null {
+  const { containers, chrome } = args;
+
+  if (!chrome) {
+    const splits = containers.map(
+      (container) => splitChildrenOfRootBox(container) ?? []
+    );
+    const slideCount = Math.max(0, ...splits.map((slides) => slides.length));
+    if (slideCount === 0) {
+      return null;
+    }
+
+    return Array.from({ length: slideCount }, (_, i) =>
+      splits.flatMap((slides) => slides[i] ?? [])
+    );
+  }
+
+  const nonEmpty = containers.filter(
+    (container) => (container.rootBox.children?.length ?? 0) > 0
+  );
+  if (nonEmpty.length === 0) {
+    return null;
+  }
+
+  const left = Math.min(...nonEmpty.map((c) => c.rootBox.x));
+  const top = Math.min(...nonEmpty.map((c) => c.rootBox.y));
+  const right = Math.max(...nonEmpty.map((c) => c.rootBox.x + c.rootBox.width));
+  const bottom = Math.max(
+    ...nonEmpty.map((c) => c.rootBox.y + c.rootBox.height)
+  );
+  const frame = { x: left, y: top, width: right - left, height: bottom - top };
+
+  const { results, slideChrome } = splitWithChrome({
+    chrome,
+    width: frame.width,
+    slideCount: Math.max(
+      ...nonEmpty.map((c) => c.rootBox.children?.length ?? 0)
+    ),
+    split: (reserved) =>
+      nonEmpty.map((container) => splitBetweenChrome(container, reserved)),
+  });
+  results.forEach(({ trace }, i) => {
+    if (trace) {
+      nonEmpty[i].onTrace?.(trace);
+    }
+  });
+
+  return slideChrome.map((chromeOfSlide, i) =>
+    placeChrome({
+      slide: results.flatMap(({ slides }) => slides[i] ?? []),
+      slideChrome: chromeOfSlide,
+      frame,
+    })
+  );
+}
+
+interface ChromeHeights {
+  header: number;
+  footer: number;
+}
+
+/**splits a container's children into the container less the chrome's heights */
+function splitBetweenChrome(
+  args: Parameters<typeof splitChildrenOfRootBox>[0],
+  reserved: ChromeHeights
+): { slides: Array<Array<PositionedCanvasBox>>; trace?: SplitTrace } {
+  const {
+    rootBox: positionedBox,
+    rowEpsilonPx = 1,
+    direction = "vertical",
+    breakGroupCards,
+    reflow,
+    policy = {},
+    onTrace,
+  } = args;
+
+  /**source boxes of Group Card fragments, by fragment id */
+  const fragmentSources = new Map<string, Box>();
+  const contentBox = {
+    ...positionedBox,
+    y: positionedBox.y + reserved.header,
+    height: positionedBox.height - reserved.header - reserved.footer,
+  };
+  const tracePasses: SplitTracePass[] | undefined = onTrace ? [] : undefined;
+  const slides = getSlideMembership({
+    boxesToSplit: positionedBox.children ?? [],
+    positionedBox: contentBox,
+    rowEpsilonPx,
+    direction,
+    breakGroupCards,
+    fragmentSources,
+    policy,
+    tracePasses,
+  });
+  const trace = tracePasses && { direction, rowEpsilonPx, passes: tracePasses };
+
+  if (reflow) {
+    return {
+      trace,
+      slides: slides.map((slide) =>
+        reflowSlide({
+          slide,
+          positionedBox: contentBox,
+          // the container's CSS height would run into the footer
+          pinHeight: reserved.header + reserved.footer > 0,
+          fragmentSources,
+          ...reflow,
+        })
+      ),
+    };
+  }
+
+  const translated = reserved.header
+    ? slides.map((slide) =>
+        slide.map((b) => getTranslatedBox(b, [0, reserved.header]))
+      )
+    : slides;
+  // columns keep the unsplit layout's height, which reaches into the footer; without a source to
+  // lay them out again they're cut off at it
+  if (direction !== "horizontal" || reserved.header + reserved.footer === 0) {
+    return { trace, slides: translated };
+  }
+  const contentBottom = contentBox.y + contentBox.height;
+  const clippedBoxIds: string[] = [];
+  const clipped = translated.map((slide) =>
+    slide.map((b) => {
+      if (b.y + b.height <= contentBottom) return b;
+      clippedBoxIds.push(b.id);
+      return getClippedBox(b, contentBottom);
+    })
+  );
+  return {
+    trace:
+      trace && clippedBoxIds.length > 0 ? { ...trace, clippedBoxIds } : trace,
+    slides: clipped,
+  };
+}
+
+/**
+ * cuts the box and its descendants off at bottom. Text lines that don't fit are dropped, and so
+ * are box models, which would no longer match.
+ */
+function getClippedBox(
+  box: PositionedCanvasBox,
+  bottom: number
+): PositionedCanvasBox {
+  if (box.y + box.height <= bottom) return box;
+  const y = Math.min(box.y, bottom);
+  return {
+    ...box,
+    y,
+    height: bottom - y,
+    text: box.text && {
+      ...box.text,
+      lines: box.text.lines.filter((l) => l.y + l.height <= bottom),
+    },
+    boxModel: undefined,
+    children: box.children?.map((c) => getClippedBox(c, bottom)),
+  };
+}
+
+/**
+ * reserves the chrome's heights and splits, then lays the chrome out for the slides the split made.
+ * Placeholders can change the chrome's height, so it's reserved as a continued slide with a slide
+ * per box, and split again if the slides' own chrome turns out taller.
+ */
+function splitWithChrome<T extends { slides: Array<unknown> }>(args: {
+  chrome: SlideChrome;
+  width: number;
+  /**the most slides the split can make */
+  slideCount: number;
+  split: (reserved: ChromeHeights) => T[];
+}): { results: T[]; slideChrome: Array<ReturnType<typeof layoutSlideChrome>> } {
+  const { chrome, width, slideCount, split } = args;
+
+  const layoutChrome = (slideCount: number) =>
+    Array.from({ length: slideCount }, (_, slideIndex) =>
+      layoutSlideChrome({ chrome, width, slideIndex, slideCount })
+    );
+  const getChromeHeights = (
+    slideChrome: ReturnType<typeof layoutChrome>
+  ): ChromeHeights => ({
+    header: Math.max(0, ...slideChrome.map((c) => c.header?.height ?? 0)),
+    footer: Math.max(0, ...slideChrome.map((c) => c.footer?.height ?? 0)),
+  });
+  const getSlideCount = (results: T[]) =>
+    Math.max(0, ...results.map((r) => r.slides.length));
+
+  let reserved = getChromeHeights([
+    layoutSlideChrome({
+      chrome,
+      width,
+      slideIndex: Math.max(0, slideCount - 1),
+      slideCount,
+    }),
+  ]);
+  let results = split(reserved);
+  let slideChrome = layoutChrome(getSlideCount(results));
+  const needed = getChromeHeights(slideChrome);
+  if (needed.header > reserved.header || needed.footer > reserved.footer) {
+    reserved = {
+      header: Math.max(reserved.header, needed.header),
+      footer: Math.max(reserved.footer, needed.footer),
+    };
+    results = split(reserved);
+    slideChrome = layoutChrome(getSlideCount(results));
+  }
+  return { results, slideChrome };
+}
+
+/**adds a slide's header at the top of frame and its footer at the bottom */
+function placeChrome(args: {
+  slide: Array<PositionedCanvasBox>;
+  slideChrome: ReturnType<typeof layoutSlideChrome>;
+  frame: { x: number; y: number; height: number };
+}): Array<PositionedCanvasBox> {
+  const {
+    slide,
+    slideChrome: { header, footer },
+    frame,
+  } = args;
+  return [
+    ...(header ? [getTranslatedBox(header.box, [frame.x, frame.y])] : []),
+    ...slide,
+    ...(footer
+      ? [
+          getTranslatedBox(footer.box, [
+            frame.x,
+            frame.y + frame.height - footer.height,
+          ]),
+        ]
+      : []),
+  ];
+}
+
+function getSlideMembership(args: {
+  boxesToSplit: Array<PositionedCanvasBox>;
+  positionedBox: PositionedCanvasBox;
+  rowEpsilonPx: number;
+  direction: SplitDirection;
+  breakGroupCards?: {
+    sourceBox: Box;
+    layoutBackend?: LayoutBackend;
+  };
+  fragmentSources: Map<string, Box>;
+  policy: SplitPolicy;
+  tracePasses?: SplitTracePass[];
+}): Array<Array<PositionedCanvasBox>> {
+  const {
+    boxesToSplit,
+    positionedBox,
+    rowEpsilonPx,
+    direction,
+    breakGroupCards,
+    fragmentSources,
+    policy,
+    tracePasses,
+  } = args;
+
+  if (direction === "horizontal") {
+    return splitIntoColumns(
+      boxesToSplit,
+      positionedBox.width,
+      rowEpsilonPx,
+      policy,
+      tracePasses
+    );
+  }
+
   //TODO: I don't think we need to worry about sort order, since we're maintaining insertion order
   // but maybe something to think about long-term
-  // Available height for layout (accounting for parent container offset from top)
-  const maxHeight = positionedBox.height;
+  const slides = paginateRows({
+    rows: getRows(boxesToSplit, rowEpsilonPx),
+    // Available height for layout (accounting for parent container offset from top)
+    maxSize: positionedBox.height,
+    axis: "y",
+    rowEpsilonPx,
+    breakGroupCards,
+    fragmentSources,
+    policy,
+    tracePasses,
+  });
 
-  type Row = {
-    top: number;
-    bottom: number;
-    boxes: Array<PositionedCanvasBox>;
-  };
+  if (direction === "both") {
+    // tiles go left to right, then top to bottom
+    return slides.flatMap((slide) =>
+      splitIntoColumns(
+        slide,
+        positionedBox.width,
+        rowEpsilonPx,
+        policy,
+        tracePasses
+      )
+    );
+  }
 
-  const rows: Array<Row> = [];
+  return slides;
+}
+
+/**grid items are bucketed by the tracks they span, so an item spanning two tracks keeps them on one slide */
+function getGridTrackRows(
+  boxes: Array<PositionedCanvasBox>,
+  axis: SplitAxis
+): Array<Row> {
+  const getTracks = (b: PositionedCanvasBox) =>
+    axis === "y"
+      ? { start: b.gridArea!.rowStart, end: b.gridArea!.rowEnd }
+      : { start: b.gridArea!.columnStart, end: b.gridArea!.columnEnd };
+  const byTrack = [...boxes].sort(
+    (a, b) => getTracks(a).start - getTracks(b).start
+  );
 
-  for (const box of boxesToSplit) {
-    const top = box.y;
-    const bottom = box.y + box.height;
+  const rows: Array<Row & { trackEnd: number }> = [];
+  for (const box of byTrack) {
+    const tracks = getTracks(box);
+    const top = axis === "y" ? box.y : box.x;
+    const bottom = top + (axis === "y" ? box.height : box.width);
     const last = rows.at(-1);
 
-    if (last && Math.abs(top - last.top) <= rowEpsilonPx) {
+    if (last && tracks.start < last.trackEnd) {
       last.boxes.push(box);
+      last.top = Math.min(last.top, top);
       last.bottom = Math.max(last.bottom, bottom);
+      last.trackEnd = Math.max(last.trackEnd, tracks.end);
     } else {
-      rows.push({ top, bottom, boxes: [box] });
+      rows.push({ top, bottom, boxes: [box], trackEnd: tracks.end });
     }
   }
 
+  const originalIndex = new Map(boxes.map((b, i) => [b.id, i]));
+  return rows.map(({ top, bottom, boxes: rowBoxes }) => ({
+    top,
+    bottom,
+    boxes: rowBoxes.sort(
+      (a, b) => (originalIndex.get(a.id) ?? 0) - (originalIndex.get(b.id) ?? 0)
+    ),
+  }));
+}
+
+/**
+ * boxes are bucketed into columns in x order, since wrapped rows restart at the left edge.
+ * Each slide keeps the boxes in their original order.
+ */
+function splitIntoColumns(
+  boxes: Array<PositionedCanvasBox>,
+  maxWidth: number,
+  rowEpsilonPx: number,
+  policy: SplitPolicy,
+  tracePasses?: SplitTracePass[]
+): Array<Array<PositionedCanvasBox>> {
+  const originalIndex = new Map(boxes.map((b, i) => [b.id, i]));
+  const byX = [...boxes].sort((a, b) => a.x - b.x);
+
+  return paginateRows({
+    rows: getRows(byX, rowEpsilonPx, "x"),
+    maxSize: maxWidth,
+    axis: "x",
+    rowEpsilonPx,
+    policy,
+    tracePasses,
+  }).map((slide) =>
+    slide.sort(
+      (a, b) => (originalIndex.get(a.id) ?? 0) - (originalIndex.get(b.id) ?? 0)
+    )
+  );
+}
+
+/**packs rows into slides of maxSize along the axis, breaking where the policy says */
+function paginateRows(args: {
+  rows: Array<Row>;
+  maxSize: number;
+  axis: SplitAxis;
+  rowEpsilonPx: number;
+  breakGroupCards?: {
+    sourceBox: Box;
+    layoutBackend?: LayoutBackend;
+  };
+  fragmentSources?: Map<string, Box>;
+  policy: SplitPolicy;
+  tracePasses?: SplitTracePass[];
+}): Array<Array<PositionedCanvasBox>> {
+  const { maxSize, axis, breakGroupCards, policy, tracePasses } = args;
+  const topRowOffset = args.rows[0]?.top ?? 0;
+
+  const rows =
+    breakGroupCards && axis === "y"
+      ? getRowsWithBrokenGroupCards({ ...args, breakGroupCards, topRowOffset })
+      : args.rows;
+  const slideStarts = new Set(
+    getSlideStarts({ rows, maxSize, topRowOffset, policy })
+  );
+
   const slides: Array<Array<PositionedCanvasBox>> = [];
+  const trace: SplitTracePass | undefined = tracePasses && {
+    axis,
+    maxSize,
+    rows: [],
+    slides: [],
+  };
+  if (trace) tracePasses?.push(trace);
 
-  let activeRows: Array<Row> = [];
+  // all split slides should have same top offset
   let upperRowEdge = 0;
-  let currentSlideIndex = 0;
-  const topRowOffset = rows[0]?.top;
+  rows.forEach((row, i) => {
+    const neededSize = row.bottom - upperRowEdge;
+    let breakReason: SplitBreakReason | undefined;
 
-  function flush() {
-    if (activeRows.length === 0) return;
+    if (slideStarts.has(i)) {
+      if (i > 0) {
+        breakReason =
+          row.startsNewSlide ?? (neededSize > maxSize ? "overflow" : "policy");
+      }
+      upperRowEdge = row.top - topRowOffset;
+      slides.push([]);
+      trace?.slides.push({ usedSize: 0, leftoverSize: maxSize });
+    }
 
-    // all split slides should have same top offset
-    const boxesAdjustedRelativeToNewSlide = activeRows.flatMap((r) =>
-      r.boxes.map((b) => getTranslatedBox(b, [0, -upperRowEdge]))
+    slides
+      .at(-1)!
+      .push(
+        ...row.boxes.map((b) =>
+          getTranslatedBox(
+            b,
+            axis === "y" ? [0, -upperRowEdge] : [-upperRowEdge, 0]
+          )
+        )
+      );
+    if (trace) {
+      trace.rows.push({
+        top: row.top,
+        bottom: row.bottom,
+        boxIds: row.boxes.map((b) => b.id),
+        slideIndex: slides.length - 1,
+        breakReason,
+        neededSize,
+      });
+      const usage = trace.slides.at(-1)!;
+      usage.usedSize = Math.max(usage.usedSize, row.bottom - upperRowEdge);
+      usage.leftoverSize = maxSize - usage.usedSize;
+    }
+    upperRowEdge += row.shiftAfter ?? 0;
+  });
+
+  return slides;
+}
+
+/**
+ * replaces rows too tall for an empty slide with one row per slide, breaking their Group Cards.
+ * How a row breaks depends on the room left above it, so rows are packed greedily as they go;
+ * policies only break earlier than that, so the fragments still fit.
+ */
+function getRowsWithBrokenGroupCards(args: {
+  rows: Array<Row>;
+  maxSize: number;
+  topRowOffset: number;
+  rowEpsilonPx: number;
+  breakGroupCards: {
+    sourceBox: Box;
+    layoutBackend?: LayoutBackend;
+  };
+  fragmentSources?: Map<string, Box>;
+}): Array<Row> {
+  const { rows, maxSize, topRowOffset, rowEpsilonPx, breakGroupCards } = args;
+
+  const packed: Array<Row> = [];
+  let upperRowEdge = 0;
+  const pack = (row: Row) => {
+    if (
+      packed.length > 0 &&
+      (row.startsNewSlide || row.bottom - upperRowEdge > maxSize)
+    ) {
+      upperRowEdge = row.top - topRowOffset;
+    }
+    packed.push(row);
+    upperRowEdge += row.shiftAfter ?? 0;
+  };
+
+  for (const row of rows) {
+    if (row.bottom - row.top <= maxSize - topRowOffset) {
+      pack(row);
+      continue;
+    }
+    const brokenRows = getBrokenRows({
+      row,
+      remainingHeight:
+        packed.length > 0 ? maxSize - (row.top - upperRowEdge) : null,
+      emptySlideHeight: maxSize - topRowOffset,
+      rowEpsilonPx,
+      fragmentSources: args.fragmentSources,
+      ...breakGroupCards,
+    });
+    const last = brokenRows.at(-1)!;
+    brokenRows.forEach((r) =>
+      pack(r === last ? { ...r, shiftAfter: row.bottom - r.bottom } : r)
     );
+  }
+
+  return packed;
+}
+
+/**indices of the rows that start a slide, chosen by the policy */
+function getSlideStarts(args: {
+  rows: Array<Row>;
+  maxSize: number;
+  topRowOffset: number;
+  policy: SplitPolicy;
+}): number[] {
+  const { rows, maxSize, topRowOffset, policy } = args;
+  const {
+    strategy = "greedy",
+    minRowsPerSlide = 0,
+    minLastSlideItems = 0,
+  } = policy;
+
+  /**
+   * the index after the last row a slide starting at start can hold: it stops before a row that
+   * has to start a new slide, before a row that doesn't fit, or after maxRows rows
+   */
+  const getSlideEnd = (start: number, maxRows = Infinity) => {
+    let upperRowEdge =
+      rows[start].top - topRowOffset + (rows[start].shiftAfter ?? 0);
+    let end = start + 1;
+    while (
+      end < rows.length &&
+      end - start < maxRows &&
+      !rows[end].startsNewSlide &&
+      rows[end].bottom - upperRowEdge <= maxSize
+    ) {
+      upperRowEdge += rows[end].shiftAfter ?? 0;
+      end += 1;
+    }
+    return end;
+  };
 
-    slides.push(boxesAdjustedRelativeToNewSlide);
-    currentSlideIndex += 1;
-    activeRows = [];
+  /**rows from `from` on, over at most slideCount slides of even row counts, if they fit */
+  const getBalancedStarts = (from: number, slideCount: number) => {
+    const starts: number[] = [];
+    let start = from;
+    while (start < rows.length && starts.length < slideCount) {
+      starts.push(start);
+      const slidesLeft = slideCount - starts.length + 1;
+      start = getSlideEnd(start, Math.ceil((rows.length - start) / slidesLeft));
+    }
+    return start >= rows.length ? starts : undefined;
+  };
+
+  const greedyStarts: number[] = [];
+  for (let start = 0; start < rows.length; start = getSlideEnd(start)) {
+    greedyStarts.push(start);
   }
 
-  for (const row of rows) {
-    const neededHeight = row.bottom - upperRowEdge;
+  // even counts can leave too much for the last slides; those fall back to greedy
+  let starts = greedyStarts;
+  if (strategy === "balanced") {
+    starts = getBalancedStarts(0, greedyStarts.length) ?? greedyStarts;
+  } else if (strategy === "fill-then-balance" && greedyStarts.length > 1) {
+    const lastTwo = getBalancedStarts(greedyStarts.at(-2)!, 2);
+    if (lastTwo) {
+      starts = [...greedyStarts.slice(0, -2), ...lastTwo];
+    }
+  }
 
-    if (activeRows.length > 0 && neededHeight > maxHeight) {
-      flush();
-      upperRowEdge = row.top - topRowOffset;
+  const getItemCount = (start: number, end: number) =>
+    rows.slice(start, end).reduce((count, row) => count + row.boxes.length, 0);
+  const isShort = (slideStarts: number[], slide: number) => {
+    const start = slideStarts[slide];
+    const end = slideStarts[slide + 1] ?? rows.length;
+    return (
+      end - start < minRowsPerSlide ||
+      (slide === slideStarts.length - 1 &&
+        getItemCount(start, end) < minLastSlideItems)
+    );
+  };
+
+  // even out more and more of the last slides, from the last short one on, until none is short.
+  // Minimums that can't be met leave the slides as they were
+  const lastShortSlide = starts.findLastIndex((_, slide) =>
+    isShort(starts, slide)
+  );
+  for (
+    let count = Math.max(2, starts.length - lastShortSlide);
+    lastShortSlide > 0 && count <= starts.length;
+    count++
+  ) {
+    const from = starts.length - count;
+    const tail = getBalancedStarts(starts[from], count);
+    if (!tail) continue;
+    const candidate = [...starts.slice(0, from), ...tail];
+    if (
+      !candidate.some((_, slide) => slide >= from && isShort(candidate, slide))
+    ) {
+      starts = candidate;
+      break;
     }
+  }
+
+  return starts;
+}
 
-    activeRows.push(row);
+type BreakableGroupCard = {
+  positioned: PositionedCanvasBox;
+  source: Box;
+  valuesSource: Box;
+  /**source children of the Distinct Field Values box, bucketed into rows by their positions */
+  valueRows: Array<Array<Box>>;
+  /**height of the positioned values rows, for estimating fragment heights before re-layout */
+  valueRowBounds: Array<{ top: number; bottom: number }>;
+};
+
+function findSourceBox(box: Box, id: string): Box | undefined {
+  if (box.id === id) {
+    return box;
+  }
+  for (const child of box.children ?? []) {
+    const found = findSourceBox(child, id);
+    if (found) return found;
   }
+  return undefined;
+}
 
-  flush();
-  return slides;
+function getBreakableGroupCard(
+  positioned: PositionedCanvasBox,
+  sourceBox: Box,
+  rowEpsilonPx: number
+): BreakableGroupCard | null {
+  if (positioned.type !== "Group Card") {
+    return null;
+  }
+  const source = findSourceBox(sourceBox, positioned.id);
+  const positionedValues = positioned.children?.find(
+    (c) => c.type === "Distinct Field Values"
+  );
+  const valuesSource = source?.children?.find(
+    (c) => c.id === positionedValues?.id
+  );
+  if (!source || !positionedValues?.children || !valuesSource?.children) {
+    return null;
+  }
+
+  const sourceById = new Map(valuesSource.children.map((c) => [c.id, c]));
+  const rows = getRows(positionedValues.children, rowEpsilonPx);
+  if (rows.length < 2) {
+    return null;
+  }
+
+  return {
+    positioned,
+    source,
+    valuesSource,
+    valueRows: rows.map((r) =>
+      r.boxes.flatMap((b) => sourceById.get(b.id) ?? [])
+    ),
+    valueRowBounds: rows.map(({ top, bottom }) => ({ top, bottom })),
+  };
+}
+
+function withIdSuffix(box: Box, suffix: string): Box {
+  return {
+    ...box,
+    id: `${box.id}${suffix}`,
+    children: box.children?.map((c) => withIdSuffix(c, suffix)),
+  };
+}
+
+function withContinuationOf(
+  box: PositionedCanvasBox,
+  suffix: string
+): PositionedCanvasBox {
+  return {
+    ...box,
+    continuationOf: box.id.slice(0, -suffix.length),
+    children: box.children?.map((c) =>
+      c.id.endsWith(suffix) ? withContinuationOf(c, suffix) : c
+    ),
+  };
+}
+
+/**
+ * lays out a Group Card holding only some rows of its Distinct Field Values, with the same CSS,
+ * at the original card's position
+ */
+function layoutGroupCardFragment(args: {
+  card: BreakableGroupCard;
+  firstRow: number;
+  rowCount: number;
+  fragmentIndex: number;
+  layoutBackend?: LayoutBackend;
+  fragmentSources?: Map<string, Box>;
+}): PositionedCanvasBox {
+  const { card, firstRow, rowCount, fragmentIndex, layoutBackend } = args;
+  const { positioned, source, valuesSource } = card;
+  const suffix = fragmentIndex === 0 ? "" : `-continued-${fragmentIndex}`;
+  const values = card.valueRows.slice(firstRow, firstRow + rowCount).flat();
+
+  const fragment: Box = {
+    ...source,
+    id: `${source.id}${suffix}`,
+    tag: fragmentIndex === 0 ? source.tag : undefined,
+    // pin the width the card had in its original row, since it's laid out on its own
+    css: `${source.css}; width: ${positioned.width}px`,
+    children: source.children?.map((c) =>
+      c.id === valuesSource.id
+        ? { ...c, id: `${c.id}${suffix}`, children: values }
+        : withIdSuffix(c, suffix)
+    ),
+  };
+
+  args.fragmentSources?.set(fragment.id, { ...fragment, css: source.css });
+
+  const layoutRoot = getPositionedBoxes({
+    rootBox: {
+      id: `${fragment.id}-fragment-root`,
+      type: "Wrapping Row",
+      css: "",
+      children: [fragment],
+    },
+    backend: layoutBackend,
+  });
+  const laidOut = layoutRoot.children![0];
+  const translated = getTranslatedBox(laidOut, [
+    positioned.x - laidOut.x,
+    positioned.y - laidOut.y,
+  ]);
+
+  return fragmentIndex === 0
+    ? translated
+    : withContinuationOf(translated, suffix);
+}
+
+/**
+ * turns a row too tall for any slide into one row per slide, breaking its Group Cards between
+ * values rows. The first broken row goes in remainingHeight on the current slide when it can.
+ */
+function getBrokenRows(args: {
+  row: Row;
+  /**height left on the current slide below row.top, or null if the slide is empty */
+  remainingHeight: number | null;
+  emptySlideHeight: number;
+  rowEpsilonPx: number;
+  sourceBox: Box;
+  layoutBackend?: LayoutBackend;
+  fragmentSources?: Map<string, Box>;
+}): Array<Row> {
+  const { row, remainingHeight, emptySlideHeight, rowEpsilonPx, sourceBox } =
+    args;
+
+  const breakable = new Map<PositionedCanvasBox, BreakableGroupCard>();
+  row.boxes.forEach((b) => {
+    const card = getBreakableGroupCard(b, sourceBox, rowEpsilonPx);
+    if (card) breakable.set(b, card);
+  });
+  if (breakable.size === 0) {
+    return [row];
+  }
+
+  const nextRowByCard = new Map<BreakableGroupCard, number>(
+    [...breakable.values()].map((card) => [card, 0])
+  );
+
+  function takeFragment(
+    card: BreakableGroupCard,
+    availableHeight: number,
+    fragmentIndex: number
+  ) {
+    const firstRow = nextRowByCard.get(card)!;
+    const { positioned, valueRowBounds } = card;
+    const leading = valueRowBounds[0].top - positioned.y;
+    const trailing =
+      positioned.y + positioned.height - valueRowBounds.at(-1)!.bottom;
+    // bottom edge of the card, relative to row.top, if it ended after the given values row
+    const estimateBottom = (lastRow: number) =>
+      positioned.y -
+      row.top +
+      leading +
+      valueRowBounds[lastRow].bottom -
+      valueRowBounds[firstRow].top +
+      trailing;
+
+    let rowCount = 1;
+    while (
+      firstRow + rowCount < valueRowBounds.length &&
+      estimateBottom(firstRow + rowCount) <= availableHeight
+    ) {
+      rowCount += 1;
+    }
+
+    let fragment = layoutGroupCardFragment({
+      card,
+      firstRow,
+      rowCount,
+      fragmentIndex,
+      layoutBackend: args.layoutBackend,
+      fragmentSources: args.fragmentSources,
+    });
+    while (
+      rowCount > 1 &&
+      fragment.y + fragment.height - row.top > availableHeight
+    ) {
+      rowCount -= 1;
+      fragment = layoutGroupCardFragment({
+        card,
+        firstRow,
+        rowCount,
+        fragmentIndex,
+        layoutBackend: args.layoutBackend,
+        fragmentSources: args.fragmentSources,
+      });
+    }
+
+    nextRowByCard.set(card, firstRow + rowCount);
+    return fragment;
+  }
+
+  function takeRow(
+    availableHeight: number,
+    fragmentIndex: number,
+    startsNewSlide: Row["startsNewSlide"]
+  ): Row {
+    const boxes = row.boxes.flatMap((b) => {
+      const card = breakable.get(b);
+      if (!card) {
+        return fragmentIndex === 0 ? [b] : [];
+      }
+      if (nextRowByCard.get(card)! >= card.valueRows.length) {
+        return [];
+      }
+      return [takeFragment(card, availableHeight, fragmentIndex)];
+    });
+
+    return {
+      top: row.top,
+      bottom: Math.max(row.top, ...boxes.map((b) => b.y + b.height)),
+      boxes,
+      startsNewSlide,
+    };
+  }
+
+  // only start on the current slide if every box gets at least a row of values in
+  const fitsRemainingHeight =
+    remainingHeight !== null &&
+    row.boxes.every((b) => {
+      const card = breakable.get(b);
+      const bottom = card
+        ? card.valueRowBounds[0].bottom +
+          (b.y + b.height - card.valueRowBounds.at(-1)!.bottom)
+        : b.y + b.height;
+      return bottom - row.top <= remainingHeight;
+    });
+
+  const brokenRows = [
+    takeRow(
+      fitsRemainingHeight ? remainingHeight : emptySlideHeight,
+      0,
+      fitsRemainingHeight ? undefined : "no-room-to-break"
+    ),
+  ];
+  while (
+    [...nextRowByCard].some(
+      ([card, nextRow]) => nextRow < card.valueRows.length
+    )
+  ) {
+    brokenRows.push(
+      takeRow(emptySlideHeight, brokenRows.length, "continuation")
+    );
+  }
+
+  return brokenRows;
+}
+
+function withContinuationOfCopied(
+  from: PositionedCanvasBox,
+  to: PositionedCanvasBox
+): PositionedCanvasBox {
+  const copied: PositionedCanvasBox = {
+    ...to,
+    children: to.children?.map((c, i) =>
+      from.children?.[i] ? withContinuationOfCopied(from.children[i], c) : c
+    ),
+  };
+  if (from.continuationOf) {
+    copied.continuationOf = from.continuationOf;
+  }
+  return copied;
+}
+
+/**
+ * lays out one slide's boxes in a copy of the container they were split from. The container keeps
+ * its original width, and the result is in the same coordinate space as the translated slides.
+ */
+function reflowSlide(args: {
+  slide: Array<PositionedCanvasBox>;
+  positionedBox: PositionedCanvasBox;
+  /**lays out at positionedBox's height too, instead of the source's */
+  pinHeight?: boolean;
+  sourceBox: Box;
+  fragmentSources: Map<string, Box>;
+  layoutBackend?: LayoutBackend;
+  includeBoxModel?: boolean;
+}): Array<PositionedCanvasBox> {
+  const {
+    slide,
+    positionedBox,
+    pinHeight = false,
+    sourceBox,
+    fragmentSources,
+    layoutBackend,
+    includeBoxModel,
+  } = args;
+
+  const sourceById = new Map(sourceBox.children?.map((c) => [c.id, c]));
+  const children = slide.flatMap(
+    (b) => fragmentSources.get(b.id) ?? sourceById.get(b.id) ?? []
+  );
+  // can't reflow boxes we have no source for, so keep the translated slide rather than drop them
+  if (children.length !== slide.length) {
+    return slide;
+  }
+
+  const reflowed = getPositionedBoxes({
+    rootBox: {
+      ...sourceBox,
+      css: `${sourceBox.css}; width: ${positionedBox.width}px${
+        pinHeight ? `; height: ${positionedBox.height}px` : ""
+      }`,
+      children,
+    },
+    backend: layoutBackend,
+    includeBoxModel,
+  });
+
+  return (reflowed.children ?? []).map((c, i) =>
+    withContinuationOfCopied(
+      slide[i],
+      getTranslatedBox(c, [positionedBox.x, positionedBox.y])
+    )
+  );
 }
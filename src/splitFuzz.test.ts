@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import {
+  generateSplitFuzzCase,
+  getSplitPropertyViolations,
+  shrinkSplitFuzzCase,
+  type SplitFuzzCase,
+} from "@/splitFuzz";
+import { splitFuzzFixtures } from "@/splitFuzzFixtures";
+
+// SPLIT_FUZZ_SEED and SPLIT_FUZZ_RUNS widen or replay a run without editing the test
+const firstSeed = Number(process.env.SPLIT_FUZZ_SEED ?? 1);
+const runs = Number(process.env.SPLIT_FUZZ_RUNS ?? 500);
+
+describe("split properties", () => {
+  for (const { name, testCase } of splitFuzzFixtures) {
+    test(name, () => {
+      expect(getSplitPropertyViolations(testCase)).toEqual([]);
+    });
+  }
+
+  test(`random row layouts, seeds ${firstSeed} to ${
+    firstSeed + runs - 1
+  }`, () => {
+    for (let seed = firstSeed; seed < firstSeed + runs; seed++) {
+      const testCase = generateSplitFuzzCase(seed);
+      if (getSplitPropertyViolations(testCase).length === 0) continue;
+
+      const counterexample = shrinkSplitFuzzCase(testCase);
+      throw new Error(
+        [
+          `seed ${seed} breaks split properties:`,
+          ...getSplitPropertyViolations(counterexample),
+          "shrunk case, to save in splitFuzzFixtures.ts:",
+          JSON.stringify(counterexample, null, 2),
+        ].join("\n")
+      );
+    }
+  });
+
+  test("shrinks a failing case to the boxes that make it fail", () => {
+    const testCase = generateSplitFuzzCase(7);
+    const isFailing = (c: SplitFuzzCase) =>
+      c.boxes.some((b) => b.height > testCase.maxHeight / 4);
+    expect(isFailing(testCase)).toBe(true);
+
+    const shrunk = shrinkSplitFuzzCase(testCase, isFailing);
+    expect(shrunk.boxes).toHaveLength(1);
+    expect(shrunk.boxes[0]).toMatchObject({ id: "r0-0", row: 0 });
+    expect(shrunk.boxes[0].height).toBe(Math.floor(testCase.maxHeight / 4) + 1);
+  });
+});
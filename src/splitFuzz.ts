@@ -0,0 +1,571 @@
+/**
+ * Property-based fuzzing of the split engine
+ *
+ * Generates random rows of positioned boxes, the way a wrapping flex container lays them out,
+ * splits them with splitChildrenOfRootBox and checks properties any split has to keep. A failing
+ * case is shrunk to a small counterexample that can be saved to `splitFuzzFixtures.ts`.
+ */
+
+import {
+  flattenPositionedBox,
+  type Box,
+  type PositionedCanvasBox,
+} from "@/layoutEngine";
+import {
+  splitChildrenOfRootBox,
+  type SplitDirection,
+  type SplitPolicy,
+  type SplitStrategy,
+} from "@/splitEngine";
+
+/**a box of the container being split, and the row it was generated in */
+export interface SplitFuzzBox {
+  id: string;
+  row: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * makes the box a Group Card holding values of these heights, stacked in one column. Its
+   * height has to be what they stack up to, see getGroupCardHeight
+   */
+  values?: number[];
+}
+
+/**plain JSON, so a counterexample can be pasted into the fixtures as is */
+export interface SplitFuzzCase {
+  /**height of the container, the most a slide can hold */
+  maxHeight: number;
+  rowEpsilonPx: number;
+  /**greedy when left out */
+  policy?: SplitPolicy;
+  /**vertical when left out */
+  direction?: SplitDirection;
+  /**width of the container, the most a slide can hold across; the content's width when left out */
+  maxWidth?: number;
+  /**breaks Group Cards too tall for a slide between their values, in vertical passes */
+  breakGroupCards?: boolean;
+  /**in document order, row by row */
+  boxes: SplitFuzzBox[];
+}
+
+const strategies: SplitStrategy[] = ["greedy", "balanced", "fill-then-balance"];
+const directions: SplitDirection[] = ["vertical", "horizontal", "both"];
+
+/**Group Card padding and the gap between its values, in the positioned boxes and the CSS alike */
+const groupCardPaddingPx = 8;
+const valueGapPx = 4;
+const minValueHeight = 4;
+
+function getGroupCardHeight(values: number[]) {
+  return (
+    2 * groupCardPaddingPx +
+    values.reduce((sum, height) => sum + height, 0) +
+    valueGapPx * Math.max(0, values.length - 1)
+  );
+}
+
+/**rounding slack for translated positions */
+const epsilonPx = 0.01;
+
+/**mulberry32; a seeded generator, so a failure can be replayed from its seed */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    /**an integer in [min, max] */
+    int: (min: number, max: number) =>
+      min + Math.floor(next() * (max - min + 1)),
+  };
+}
+
+/**
+ * rows of boxes with variable heights, gaps and a first-row offset. Tops within a row are
+ * jittered by up to rowEpsilonPx, so they should still be bucketed together, and now and then
+ * a box is taller than the container. Half the cases get a random split policy, and some boxes
+ * are Group Cards whose values make up their height. The direction is random too; horizontal
+ * and "both" cases get a container narrower than most of the rows.
+ */
+export function generateSplitFuzzCase(seed: number): SplitFuzzCase {
+  const random = createRandom(seed);
+  const maxHeight = random.int(150, 900);
+  const rowEpsilonPx = random.int(0, 3);
+  // tops are at least this far apart, so neighbouring rows are never bucketed together
+  const minRowHeight = 2 * rowEpsilonPx + 4;
+
+  const boxes: SplitFuzzBox[] = [];
+  let rowTop = random.int(0, 80);
+  const rowCount = random.int(1, 12);
+  for (let row = 0; row < rowCount; row++) {
+    let x = random.int(0, 40);
+    let rowHeight = minRowHeight;
+    const boxCount = random.int(1, 6);
+    for (let i = 0; i < boxCount; i++) {
+      const height =
+        random.next() < 0.08
+          ? random.int(maxHeight, maxHeight * 2)
+          : random.int(minRowHeight, Math.floor(maxHeight / 2));
+      const width = random.int(20, 150);
+      boxes.push({
+        id: `r${row}-${i}`,
+        row,
+        x,
+        // half px steps, so the float math gets some exercise
+        y: rowTop + Math.round(random.next() * rowEpsilonPx * 2) / 2,
+        width,
+        height,
+      });
+      x += width + random.int(0, 20);
+      rowHeight = Math.max(rowHeight, height);
+    }
+    rowTop += rowHeight + random.int(0, 30);
+  }
+
+  const policy: SplitPolicy | undefined =
+    random.next() < 0.5
+      ? {
+          strategy: strategies[random.int(0, strategies.length - 1)],
+          minRowsPerSlide: random.int(0, 3),
+          minLastSlideItems: random.int(0, 8),
+        }
+      : undefined;
+
+  // drawn after the rows, so a seed keeps the row layout it had before these were added
+  for (const box of boxes) {
+    const innerHeight = box.height - 2 * groupCardPaddingPx;
+    const maxValueCount = Math.min(
+      8,
+      Math.floor((innerHeight + valueGapPx) / (minValueHeight + valueGapPx))
+    );
+    if (random.next() < 0.3 && maxValueCount >= 2) {
+      box.values = getValueHeights({
+        random,
+        valueCount: random.int(2, maxValueCount),
+        innerHeight,
+      });
+    }
+  }
+  const breakGroupCards = random.next() < 0.5;
+  const direction = directions[random.int(0, directions.length - 1)];
+
+  return {
+    maxHeight,
+    rowEpsilonPx,
+    policy,
+    ...(direction !== "vertical" && {
+      direction,
+      maxWidth: random.int(100, 900),
+    }),
+    ...(breakGroupCards && { breakGroupCards }),
+    boxes,
+  };
+}
+
+/**uneven value heights that stack up to innerHeight */
+function getValueHeights(args: {
+  random: ReturnType<typeof createRandom>;
+  valueCount: number;
+  innerHeight: number;
+}) {
+  const { random, valueCount, innerHeight } = args;
+  const available = innerHeight - valueGapPx * (valueCount - 1);
+  const base = Math.floor(available / valueCount);
+  const values = Array.from({ length: valueCount }, () => base);
+  values[valueCount - 1] += available - base * valueCount;
+  for (let i = 0; i < valueCount - 1; i++) {
+    const moved = random.int(0, Math.floor(values[i] / 2));
+    values[i] -= moved;
+    values[i + 1] += moved;
+  }
+  return values;
+}
+
+function getPositionedFuzzBox({
+  row: _,
+  values,
+  ...box
+}: SplitFuzzBox): PositionedCanvasBox {
+  if (!values) {
+    return { ...box, type: "Card" };
+  }
+  const x = box.x + groupCardPaddingPx;
+  const width = box.width - 2 * groupCardPaddingPx;
+  let y = box.y + groupCardPaddingPx;
+  return {
+    ...box,
+    type: "Group Card",
+    children: [
+      {
+        id: `${box.id}-values`,
+        type: "Distinct Field Values",
+        x,
+        y,
+        width,
+        height: box.height - 2 * groupCardPaddingPx,
+        children: values.map((height, i) => {
+          const value: PositionedCanvasBox = {
+            id: `${box.id}-v${i}`,
+            type: "Card",
+            x,
+            y,
+            width,
+            height,
+          };
+          y += height + valueGapPx;
+          return value;
+        }),
+      },
+    ],
+  };
+}
+
+/**the container as splitChildrenOfRootBox sees it */
+export function getSplitFuzzRootBox(
+  testCase: SplitFuzzCase
+): PositionedCanvasBox {
+  return {
+    id: "fuzz-row",
+    type: "Wrapping Row",
+    x: 0,
+    y: 0,
+    width:
+      testCase.maxWidth ??
+      Math.max(0, ...testCase.boxes.map((b) => b.x + b.width)),
+    height: testCase.maxHeight,
+    children: testCase.boxes.map(getPositionedFuzzBox),
+  };
+}
+
+/**the Box tree the container could have been laid out from, for breaking its Group Cards */
+export function getSplitFuzzSourceBox(testCase: SplitFuzzCase): Box {
+  return {
+    id: "fuzz-row",
+    type: "Wrapping Row",
+    css: "",
+    children: testCase.boxes.map(({ id, width, height, values }) =>
+      values
+        ? {
+            id,
+            type: "Group Card",
+            css: `display: flex; flex-direction: column; padding: ${groupCardPaddingPx}px; width: ${width}px`,
+            children: [
+              {
+                id: `${id}-values`,
+                type: "Distinct Field Values",
+                css: `display: flex; flex-direction: column; gap: ${valueGapPx}px`,
+                children: values.map((valueHeight, i) => ({
+                  id: `${id}-v${i}`,
+                  type: "Card",
+                  css: `height: ${valueHeight}px; flex-shrink: 0`,
+                })),
+              },
+            ],
+          }
+        : { id, type: "Card", css: `width: ${width}px; height: ${height}px` }
+    ),
+  };
+}
+
+/**
+ * the least height a box can take on a slide: a Group Card that can be broken needs its padding
+ * and its tallest value, anything else its whole height
+ */
+function getMinHeight(box: SplitFuzzBox, breakGroupCards: boolean) {
+  return breakGroupCards && box.values && box.values.length > 1
+    ? 2 * groupCardPaddingPx + Math.max(...box.values)
+    : box.height;
+}
+
+/**
+ * returns a message per broken property, or an empty array:
+ * - every box, and every value of a Group Card, is on exactly one slide
+ * - each slide's content fits in the container's height, unless the slide only holds a row that
+ *   can't fit on an empty slide, even broken. Across, every box after a slide's first column fits
+ *   in the container's width
+ * - every slide's content starts at the first row's top offset and the first column's left
+ *   offset, along the axes it splits; "both" only starts at or after them, since a slide of
+ *   columns doesn't have to hold the first row
+ * - a policy doesn't need more slides than greedy splitting; in "both", more vertical slides
+ */
+export function getSplitPropertyViolations(testCase: SplitFuzzCase): string[] {
+  const {
+    maxHeight,
+    rowEpsilonPx,
+    policy,
+    direction = "vertical",
+    breakGroupCards = false,
+    boxes,
+  } = testCase;
+
+  const rootBox = getSplitFuzzRootBox(testCase);
+  let slides: PositionedCanvasBox[][];
+  let slideCount: number;
+  let greedySlideCount: number;
+  try {
+    // "both" tiles each vertical slide, and moving rows between them changes the tiles, so only
+    // its vertical pass has to keep to greedy's slide count
+    let verticalPassSlideCount = 0;
+    const split = (splitPolicy?: SplitPolicy) =>
+      splitChildrenOfRootBox({
+        rootBox,
+        rowEpsilonPx,
+        direction,
+        policy: splitPolicy,
+        breakGroupCards: breakGroupCards
+          ? {
+              sourceBox: getSplitFuzzSourceBox(testCase),
+              layoutBackend: "solver",
+            }
+          : undefined,
+        onTrace: (trace) => {
+          verticalPassSlideCount = trace.passes[0]?.slides.length ?? 0;
+        },
+      }) ?? [];
+    const getSlideCount = (splitSlides: PositionedCanvasBox[][]) =>
+      direction === "both" ? verticalPassSlideCount : splitSlides.length;
+    slides = split(policy);
+    slideCount = getSlideCount(slides);
+    greedySlideCount = policy ? getSlideCount(split()) : slideCount;
+  } catch (error) {
+    return [`splitting threw: ${(error as Error).message}`];
+  }
+
+  const violations: string[] = [];
+  if (slideCount > greedySlideCount) {
+    violations.push(
+      `the policy needs ${slideCount} slides, greedy ${greedySlideCount}`
+    );
+  }
+
+  const counts = new Map<string, number>();
+  slides
+    .flat()
+    .flatMap(flattenPositionedBox)
+    .forEach((b) => counts.set(b.id, (counts.get(b.id) ?? 0) + 1));
+  const expectedIds = boxes.flatMap((box) => [
+    box.id,
+    ...(box.values ?? []).map((_, i) => `${box.id}-v${i}`),
+  ]);
+  for (const id of expectedIds) {
+    const count = counts.get(id) ?? 0;
+    if (count !== 1) {
+      violations.push(`${id} is on ${count} slides`);
+    }
+  }
+
+  const boxesById = new Map(boxes.map((b) => [b.id, b]));
+  const topOffset = boxes[0]?.y ?? 0;
+  const leftOffset = Math.min(...boxes.map((b) => b.x));
+  const emptySlideHeight = maxHeight - topOffset;
+  const splitsY = direction !== "horizontal";
+  const splitsX = direction !== "vertical";
+  const isOnOffset = (start: number, offset: number) =>
+    direction === "both"
+      ? start >= offset - rowEpsilonPx - epsilonPx
+      : Math.abs(start - offset) <= rowEpsilonPx + epsilonPx;
+
+  slides.forEach((slide, i) => {
+    if (slide.length === 0) {
+      violations.push(`slide ${i} is empty`);
+      return;
+    }
+
+    if (splitsY) {
+      const top = Math.min(...slide.map((b) => b.y));
+      const bottom = Math.max(...slide.map((b) => b.y + b.height));
+      if (!isOnOffset(top, topOffset)) {
+        violations.push(`slide ${i} starts at ${top}, not ${topOffset}`);
+      }
+
+      // fragments of a broken Group Card count as the card
+      const rows = [
+        ...new Set(
+          slide.map((b) => boxesById.get(b.continuationOf ?? b.id)?.row)
+        ),
+      ];
+      const firstRowBoxes = boxes.filter((b) => b.row === rows[0]);
+      const firstRowHeight =
+        Math.max(
+          ...firstRowBoxes.map((b) => b.y + getMinHeight(b, breakGroupCards))
+        ) - Math.min(...firstRowBoxes.map((b) => b.y));
+      const canFit = rows.length > 1 || firstRowHeight <= emptySlideHeight;
+      if (canFit && bottom > maxHeight + epsilonPx) {
+        violations.push(
+          `slide ${i} holds ${rows.length} rows down to ${bottom}, past ${maxHeight}`
+        );
+      }
+    }
+
+    if (splitsX) {
+      const left = Math.min(...slide.map((b) => b.x));
+      if (!isOnOffset(left, leftOffset)) {
+        violations.push(`slide ${i} starts at x ${left}, not ${leftOffset}`);
+      }
+      // columns of wrapped rows overlap, so a column can fit inside a first one that's too wide
+      // for any slide; only the first column may run past the slide
+      for (const box of slide) {
+        const boxRight = box.x + box.width;
+        if (
+          box.x > left + rowEpsilonPx &&
+          boxRight > rootBox.width + epsilonPx
+        ) {
+          violations.push(
+            `${box.id} on slide ${i} runs across to ${boxRight}, past ${rootBox.width}`
+          );
+        }
+      }
+    }
+  });
+
+  return violations;
+}
+
+/**tops have to stay bucketed the way the case's rows say */
+function isValidCase(testCase: SplitFuzzCase) {
+  const { boxes, rowEpsilonPx } = testCase;
+  return boxes.every((box, i) => {
+    const previous = boxes[i - 1];
+    const rowStart = boxes.find((b) => b.row === box.row)!;
+    return (
+      box.height > 0 &&
+      (!box.values ||
+        (box.values.every((height) => height > 0) &&
+          box.height === getGroupCardHeight(box.values))) &&
+      box.y >= 0 &&
+      Math.abs(box.y - rowStart.y) <= rowEpsilonPx &&
+      (!previous ||
+        previous.row === box.row ||
+        box.y - boxes.find((b) => b.row === previous.row)!.y > rowEpsilonPx)
+    );
+  });
+}
+
+/**smaller variants of a case, most drastic first */
+function getShrinkCandidates(testCase: SplitFuzzCase): SplitFuzzCase[] {
+  const { boxes } = testCase;
+  const rows = [...new Set(boxes.map((b) => b.row))];
+  const withBoxes = (next: SplitFuzzBox[]) => ({ ...testCase, boxes: next });
+  const shiftFrom = (index: number, dy: number) =>
+    withBoxes(boxes.map((b, i) => (i >= index ? { ...b, y: b.y - dy } : b)));
+  /**a Group Card's last value takes up the difference */
+  const withHeight = (index: number, height: number) =>
+    withBoxes(
+      boxes.map((b, i) =>
+        i !== index
+          ? b
+          : {
+              ...b,
+              height,
+              values: b.values?.map((value, j) =>
+                j === b.values!.length - 1 ? value + height - b.height : value
+              ),
+            }
+      )
+    );
+  const withValues = (index: number, values: number[] | undefined) =>
+    withBoxes(
+      boxes.map((b, i) => {
+        if (i !== index) return b;
+        const { values: _, ...box } = b;
+        return values
+          ? { ...box, values, height: getGroupCardHeight(values) }
+          : box;
+      })
+    );
+
+  return [
+    ...rows.map((row) => withBoxes(boxes.filter((b) => b.row !== row))),
+    ...boxes.map((_, i) => withBoxes(boxes.filter((__, j) => j !== i))),
+    // Group Cards become plain cards, then lose values
+    ...boxes.flatMap((box, i) =>
+      box.values
+        ? [
+            withValues(i, undefined),
+            ...box.values.map((_, j) =>
+              withValues(
+                i,
+                box.values!.filter((__, k) => k !== j)
+              )
+            ),
+          ]
+        : []
+    ),
+    // close the gap above each row, then halve it
+    ...rows.flatMap((row) => {
+      const index = boxes.findIndex((b) => b.row === row);
+      const above = boxes.filter((b) => b.row < row);
+      const gap =
+        index === 0
+          ? boxes[0].y
+          : boxes[index].y - Math.max(...above.map((b) => b.y + b.height));
+      return [gap, Math.floor(gap / 2)]
+        .filter((dy) => dy > 0)
+        .map((dy) => shiftFrom(index, dy));
+    }),
+    ...boxes.flatMap((box, i) =>
+      box.height > 1
+        ? [
+            withHeight(i, Math.floor(box.height / 2)),
+            withHeight(i, box.height - 1),
+          ]
+        : []
+    ),
+    // drop the jitter within rows
+    ...boxes.flatMap((box, i) => {
+      const rowStart = boxes.find((b) => b.row === box.row)!;
+      return box.y !== rowStart.y
+        ? [
+            withBoxes(
+              boxes.map((b, j) => (j === i ? { ...b, y: rowStart.y } : b))
+            ),
+          ]
+        : [];
+    }),
+    ...(testCase.rowEpsilonPx > 0
+      ? [{ ...testCase, rowEpsilonPx: testCase.rowEpsilonPx - 1 }]
+      : []),
+    ...(testCase.policy ? [{ ...testCase, policy: undefined }] : []),
+    ...(testCase.breakGroupCards
+      ? [{ ...testCase, breakGroupCards: undefined }]
+      : []),
+    ...(testCase.direction
+      ? [{ ...testCase, direction: undefined, maxWidth: undefined }]
+      : []),
+  ].filter(isValidCase);
+}
+
+/**
+ * greedily takes the first smaller variant that still fails, until none does. Row numbers and
+ * ids are compacted afterwards, so the counterexample reads well as a fixture.
+ */
+export function shrinkSplitFuzzCase(
+  testCase: SplitFuzzCase,
+  isFailing: (testCase: SplitFuzzCase) => boolean = (c) =>
+    getSplitPropertyViolations(c).length > 0
+): SplitFuzzCase {
+  let current = testCase;
+  for (let step = 0; step < 10_000; step++) {
+    const smaller = getShrinkCandidates(current).find(isFailing);
+    if (!smaller) break;
+    current = smaller;
+  }
+
+  const rows = [...new Set(current.boxes.map((b) => b.row))];
+  const compacted = {
+    ...current,
+    boxes: current.boxes.map((box) => {
+      const row = rows.indexOf(box.row);
+      const index = current.boxes.filter((b) => b.row === box.row).indexOf(box);
+      return { ...box, id: `r${row}-${index}`, row };
+    }),
+  };
+  return isFailing(compacted) ? compacted : current;
+}
@@ -0,0 +1,102 @@
+/**
+ * Split cases kept as regression tests for the split fuzzer's properties
+ *
+ * Hand-picked boundaries of the row bucketing, Group Card breaking and column splits. A shrunk
+ * counterexample printed by a failing run of `splitFuzz.test.ts` can be pasted in as is.
+ */
+
+import type { SplitFuzzCase } from "@/splitFuzz";
+
+export const splitFuzzFixtures: Array<{
+  name: string;
+  testCase: SplitFuzzCase;
+}> = [
+  {
+    name: "tops jittered by rowEpsilonPx share a row",
+    testCase: {
+      maxHeight: 150,
+      rowEpsilonPx: 2,
+      boxes: [
+        { id: "r0-0", row: 0, x: 0, y: 10, width: 50, height: 60 },
+        { id: "r0-1", row: 0, x: 60, y: 12, width: 50, height: 40 },
+        { id: "r0-2", row: 0, x: 120, y: 11.5, width: 50, height: 70 },
+        { id: "r1-0", row: 1, x: 0, y: 85, width: 50, height: 60 },
+        { id: "r1-1", row: 1, x: 60, y: 87, width: 50, height: 64 },
+      ],
+    },
+  },
+  {
+    name: "a row ending exactly at maxHeight stays on the slide",
+    testCase: {
+      maxHeight: 200,
+      rowEpsilonPx: 1,
+      boxes: [
+        { id: "r0-0", row: 0, x: 0, y: 20, width: 50, height: 80 },
+        { id: "r1-0", row: 1, x: 0, y: 110, width: 50, height: 90 },
+        { id: "r2-0", row: 2, x: 0, y: 210, width: 50, height: 30 },
+      ],
+    },
+  },
+  {
+    name: "later slides start at the first row's top offset",
+    testCase: {
+      maxHeight: 300,
+      rowEpsilonPx: 1,
+      boxes: [
+        { id: "r0-0", row: 0, x: 0, y: 60, width: 50, height: 150 },
+        { id: "r1-0", row: 1, x: 0, y: 220, width: 50, height: 150 },
+        { id: "r1-1", row: 1, x: 60, y: 220.5, width: 50, height: 100 },
+        { id: "r2-0", row: 2, x: 0, y: 390, width: 50, height: 200 },
+        { id: "r3-0", row: 3, x: 0, y: 600, width: 50, height: 20 },
+      ],
+    },
+  },
+  {
+    name: "a row taller than the slide gets a slide of its own",
+    testCase: {
+      maxHeight: 200,
+      rowEpsilonPx: 0,
+      boxes: [
+        { id: "r0-0", row: 0, x: 0, y: 10, width: 50, height: 50 },
+        { id: "r1-0", row: 1, x: 0, y: 70, width: 50, height: 400 },
+        { id: "r1-1", row: 1, x: 60, y: 70, width: 50, height: 40 },
+        { id: "r2-0", row: 2, x: 0, y: 480, width: 50, height: 50 },
+      ],
+    },
+  },
+  {
+    name: "a Group Card taller than the slide is broken between its values",
+    testCase: {
+      maxHeight: 200,
+      rowEpsilonPx: 0,
+      breakGroupCards: true,
+      boxes: [
+        { id: "r0-0", row: 0, x: 0, y: 10, width: 50, height: 50 },
+        {
+          id: "r1-0",
+          row: 1,
+          x: 0,
+          y: 70,
+          width: 80,
+          height: 228,
+          values: [50, 50, 50, 50],
+        },
+        { id: "r1-1", row: 1, x: 90, y: 70, width: 50, height: 40 },
+      ],
+    },
+  },
+  {
+    name: "a column inside a first column too wide for the slide shares its slide",
+    testCase: {
+      maxHeight: 300,
+      rowEpsilonPx: 0,
+      direction: "horizontal",
+      maxWidth: 126,
+      boxes: [
+        { id: "r0-0", row: 0, x: 8, y: 0, width: 145, height: 10 },
+        { id: "r1-0", row: 1, x: 77, y: 20, width: 39, height: 10 },
+        { id: "r1-1", row: 1, x: 120, y: 20, width: 30, height: 10 },
+      ],
+    },
+  },
+];
@@ -0,0 +1,153 @@
+/**
+ * Invariants of split slides
+ *
+ * Whatever the layout, a split has to keep every tagged box exactly once, in document order,
+ * and inside the slide along the axes it splits. Checks return messages rather than throwing,
+ * so a test can report every broken invariant at once.
+ */
+
+import { flattenPositionedBox, type PositionedCanvasBox } from "@/layoutEngine";
+import type { LayoutRect } from "@/boxModel";
+import type { SplitDirection } from "@/splitEngine";
+
+/**rounding slack for positions that went through float math */
+const epsilonPx = 0.01;
+
+/**boxes are told apart by type and tag, since tags are only unique per type */
+function getTagKeys(boxes: PositionedCanvasBox[]) {
+  return boxes
+    .flatMap(flattenPositionedBox)
+    .filter((b) => b.tag !== undefined)
+    .map((b) => `${b.type} #${b.tag}`);
+}
+
+/**
+ * tagged boxes by parent, in document order. Fragments of a broken box count as the box they
+ * continue, so its children are compared across slides.
+ */
+function getTaggedSiblings(
+  boxes: PositionedCanvasBox[],
+  parentId = "",
+  siblings = new Map<string, string[]>()
+) {
+  for (const box of boxes) {
+    if (box.tag !== undefined) {
+      siblings.set(parentId, [
+        ...(siblings.get(parentId) ?? []),
+        `${box.type} #${box.tag}`,
+      ]);
+    }
+    getTaggedSiblings(
+      box.children ?? [],
+      box.continuationOf ?? box.id,
+      siblings
+    );
+  }
+  return siblings;
+}
+
+function getOutOfBoundsBoxes(args: {
+  boxes: PositionedCanvasBox[];
+  slideBounds: LayoutRect;
+  axes: Array<"x" | "y">;
+}): PositionedCanvasBox[] {
+  const { boxes, slideBounds, axes } = args;
+  return boxes.flatMap((box) => {
+    const sizes = { x: box.width, y: box.height };
+    const slideSizes = { x: slideBounds.width, y: slideBounds.height };
+    // a box larger than the slide can't fit anywhere, and neither can its children
+    if (axes.some((axis) => sizes[axis] > slideSizes[axis] + epsilonPx)) {
+      return [];
+    }
+    const isOutside = axes.some(
+      (axis) =>
+        box[axis] < slideBounds[axis] - epsilonPx ||
+        box[axis] + sizes[axis] >
+          slideBounds[axis] + slideSizes[axis] + epsilonPx
+    );
+    return [
+      ...(isOutside ? [box] : []),
+      ...getOutOfBoundsBoxes({ ...args, boxes: box.children ?? [] }),
+    ];
+  });
+}
+
+/**
+ * returns a message per broken invariant, or an empty array. Order is checked among siblings,
+ * since Group Cards broken side by side interleave their cards across slides. Horizontal and
+ * "both" splits take columns across wrapped rows, so only vertical splits keep order from slide
+ * to slide.
+ */
+export function getSplitInvariantViolations(args: {
+  /**the unsplit container the slides were split from */
+  rootBox: PositionedCanvasBox;
+  slides: PositionedCanvasBox[][];
+  /**the slide frame, in the canvas space of rootBox */
+  slideBounds: LayoutRect;
+  direction: SplitDirection;
+}): string[] {
+  const { rootBox, slides, slideBounds, direction } = args;
+  const violations: string[] = [];
+
+  const expectedKeys = getTagKeys(rootBox.children ?? []);
+  const slideKeys = slides.map(getTagKeys);
+  const counts = new Map<string, number>();
+  slideKeys
+    .flat()
+    .forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+
+  for (const key of expectedKeys) {
+    const count = counts.get(key) ?? 0;
+    if (count !== 1) {
+      violations.push(`${key} appears ${count} times across slides`);
+    }
+  }
+  const expected = new Set(expectedKeys);
+  for (const key of counts.keys()) {
+    if (!expected.has(key)) {
+      violations.push(`${key} isn't in the unsplit layout`);
+    }
+  }
+
+  const documentOrder = new Map(expectedKeys.map((key, i) => [key, i]));
+  const getOutOfOrderParents = (boxes: PositionedCanvasBox[]) =>
+    [...getTaggedSiblings(boxes)]
+      .filter(([, keys]) =>
+        keys.some(
+          (key, i) =>
+            i > 0 &&
+            (documentOrder.get(key) ?? 0) <
+              (documentOrder.get(keys[i - 1]) ?? 0)
+        )
+      )
+      .map(([parentId]) => parentId || rootBox.id);
+  if (direction === "vertical") {
+    for (const parentId of getOutOfOrderParents(slides.flat())) {
+      violations.push(`children of ${parentId} aren't in document order`);
+    }
+  } else {
+    slides.forEach((boxes, i) => {
+      for (const parentId of getOutOfOrderParents(boxes)) {
+        violations.push(
+          `children of ${parentId} on slide ${i} aren't in document order`
+        );
+      }
+    });
+  }
+
+  const axes: Array<"x" | "y"> =
+    direction === "vertical"
+      ? ["y"]
+      : direction === "horizontal"
+      ? ["x"]
+      : ["x", "y"];
+  slides.forEach((boxes, i) => {
+    for (const box of getOutOfBoundsBoxes({ boxes, slideBounds, axes })) {
+      violations.push(
+        `${box.id} on slide ${i} is outside the slide at ${box.x},${box.y} ${box.width}x${box.height}`
+      );
+    }
+  });
+
+  return violations;
+}
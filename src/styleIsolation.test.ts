@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import { flexPresets, type Box } from "@/layoutEngine";
+import { getIsolatedLayoutRoot, getStyleDiagnostics } from "@/styleIsolation";
+
+// a DOM for this file only; the layout tests run without one
+beforeAll(() => GlobalRegistrator.register());
+afterAll(() => GlobalRegistrator.unregister());
+
+/**a box's element in the isolated root, styled the way the DOM backend styles it */
+function getStyledBox(css: string, className?: string) {
+  const box: Box = { id: "box", type: "Card", css };
+  const element = document.createElement("div");
+  if (className) element.className = className;
+  element.style.cssText = css;
+  getIsolatedLayoutRoot().appendChild(element);
+  return { box, element };
+}
+
+describe("getIsolatedLayoutRoot", () => {
+  test("mounts one shadow root with the reset, and replaces it once it's removed", () => {
+    const root = getIsolatedLayoutRoot();
+    expect(root.host.getAttribute("data-layout-root")).toBe("");
+    expect(root.host.getAttribute("aria-hidden")).toBe("true");
+    expect(root.host.parentNode).toBe(document.body);
+    expect(root.querySelector("style")?.textContent).toContain("all: initial");
+    expect(getIsolatedLayoutRoot()).toBe(root);
+
+    root.host.remove();
+    const next = getIsolatedLayoutRoot();
+    expect(next).not.toBe(root);
+    expect(next.host.isConnected).toBe(true);
+  });
+});
+
+describe("getStyleDiagnostics", () => {
+  test("reports nothing for the presets, whose shorthands are overridden later in the same string", () => {
+    for (const css of Object.values(flexPresets).flatMap(Object.values)) {
+      expect(getStyleDiagnostics([getStyledBox(css)])).toEqual([]);
+    }
+  });
+
+  test("compares only the declaration that wins each longhand", () => {
+    expect(
+      getStyleDiagnostics([
+        getStyledBox("padding: 25px; padding-top: 40px"),
+        getStyledBox("padding: 10px; padding: 20px"),
+        // an earlier !important one beats a later one
+        getStyledBox("padding-top: 3px !important; padding-top: 4px"),
+      ])
+    ).toEqual([]);
+  });
+
+  test("reports declarations the browser drops", () => {
+    expect(getStyleDiagnostics([getStyledBox("width: bogus")])).toEqual([
+      {
+        boxId: "box",
+        property: "width",
+        declared: "bogus",
+        computed: "",
+        reason: "invalid",
+      },
+    ]);
+  });
+
+  test("reports the longhand a stylesheet overrides", () => {
+    const style = document.createElement("style");
+    style.textContent =
+      "div.pinned { width: 5px !important; padding: 1px !important; }";
+    getIsolatedLayoutRoot().appendChild(style);
+
+    expect(
+      getStyleDiagnostics([
+        getStyledBox("width: 10px; padding: 8px; padding-top: 2px", "pinned"),
+      ])
+    ).toEqual([
+      {
+        boxId: "box",
+        property: "width",
+        declared: "10px",
+        computed: "5px",
+        reason: "overridden",
+      },
+      // padding-top isn't the shorthand's to report
+      {
+        boxId: "box",
+        property: "padding-right",
+        declared: "8px",
+        computed: "1px",
+        reason: "overridden",
+      },
+      {
+        boxId: "box",
+        property: "padding-top",
+        declared: "2px",
+        computed: "1px",
+        reason: "overridden",
+      },
+    ]);
+    style.remove();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Isolated root for DOM layout
+ *
+ * Layout trees are mounted inside a shadow root so document stylesheets (Tailwind's
+ * preflight, app CSS) can't reach them. Inherited properties are cut off at the host with
+ * `all: initial`, and a small reset gives every box the same starting point as the solver.
+ */
+
+import type { Box } from "@/layoutEngine";
+
+const resetStylesheet = `
+:host {
+  all: initial;
+  display: block;
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 0;
+  height: 0;
+  overflow: hidden;
+  font: 16px sans-serif;
+  line-height: normal;
+}
+div {
+  box-sizing: border-box;
+  display: block;
+  margin: 0;
+  padding: 0;
+  border: 0 solid;
+}
+`;
+
+let isolatedRoot: ShadowRoot | undefined;
+
+/**layout containers are appended here instead of `document.body` */
+export function getIsolatedLayoutRoot(): ShadowRoot {
+  if (isolatedRoot?.host.isConnected) {
+    return isolatedRoot;
+  }
+  const host = document.createElement("div");
+  host.setAttribute("data-layout-root", "");
+  host.setAttribute("aria-hidden", "true");
+  isolatedRoot = host.attachShadow({ mode: "open" });
+  const style = document.createElement("style");
+  style.textContent = resetStylesheet;
+  isolatedRoot.appendChild(style);
+  document.body.appendChild(host);
+  return isolatedRoot;
+}
+
+export interface StyleDiagnostic {
+  boxId: string;
+  /**the declared property, or for a shorthand, the longhand that came out differently */
+  property: string;
+  declared: string;
+  /**empty when the browser dropped the declaration */
+  computed: string;
+  /**"invalid" when the browser doesn't accept the declaration, "overridden" when something else won */
+  reason: "invalid" | "overridden";
+}
+
+/**values that only resolve against their context, so a probe element can't predict them */
+const contextDependentValue =
+  /%|\d(fr|em|rem|vw|vh|ch)\b|auto|calc\(|min-content|max-content|fit-content|inherit|currentcolor/i;
+
+interface Declaration {
+  property: string;
+  declared: string;
+  /**without its priority, which the probe would reject as part of the value */
+  value: string;
+  important: boolean;
+}
+
+function getDeclarations(css: string): Declaration[] {
+  return css
+    .split(";")
+    .map((d) => d.trim())
+    .flatMap((declaration) => {
+      const colonIndex = declaration.indexOf(":");
+      if (colonIndex === -1) return [];
+      const declared = declaration.slice(colonIndex + 1).trim();
+      return [
+        {
+          property: declaration.slice(0, colonIndex).trim().toLowerCase(),
+          declared,
+          value: declared.replace(/!important/i, "").trim(),
+          important: /!important/i.test(declared),
+        },
+      ];
+    });
+}
+
+/**
+ * compares each declaration in `Box.css` with the element's computed style. Each declaration
+ * is also applied alone to a probe in the isolated root, which is what the computed value
+ * should be when nothing else interferes. The probe also expands shorthands, so a declaration is
+ * only compared on the longhands that a later one in the same string doesn't override.
+ */
+export function getStyleDiagnostics(
+  boxes: Array<{ box: Box; element: HTMLElement }>
+): StyleDiagnostic[] {
+  const probe = document.createElement("div");
+  getIsolatedLayoutRoot().appendChild(probe);
+  const diagnostics: StyleDiagnostic[] = [];
+
+  /**applies the declaration alone to the probe, and returns its longhands, or null when it's dropped */
+  const applyToProbe = ({ property, value }: Declaration) => {
+    probe.style.cssText = "";
+    probe.style.setProperty(property, value);
+    if (probe.style.getPropertyValue(property) === "") {
+      return null;
+    }
+    return Array.from({ length: probe.style.length }, (_, i) =>
+      probe.style.item(i)
+    );
+  };
+
+  try {
+    for (const { box, element } of boxes) {
+      const computedStyle = getComputedStyle(element);
+      const declarations = getDeclarations(box.css);
+
+      // each longhand goes to the last declaration setting it, unless an earlier one is !important
+      const longhands = declarations.map(applyToProbe);
+      const winners = new Map<string, number>();
+      longhands.forEach((names, i) => {
+        for (const name of names ?? []) {
+          const winner = winners.get(name);
+          if (
+            winner === undefined ||
+            declarations[i].important ||
+            !declarations[winner].important
+          ) {
+            winners.set(name, i);
+          }
+        }
+      });
+
+      declarations.forEach((declaration, i) => {
+        const { property, declared, value } = declaration;
+        if (!longhands[i]) {
+          diagnostics.push({
+            boxId: box.id,
+            property,
+            declared,
+            computed: "",
+            reason: "invalid",
+          });
+          return;
+        }
+        if (contextDependentValue.test(value)) return;
+        const effective = longhands[i]!.filter(
+          (name) => winners.get(name) === i
+        );
+        if (effective.length === 0) return;
+
+        applyToProbe(declaration);
+        const probeStyle = getComputedStyle(probe);
+        for (const name of effective) {
+          const expected = probeStyle.getPropertyValue(name);
+          const computed = computedStyle.getPropertyValue(name);
+          // some properties don't serialize from computed style
+          if (expected === "" || computed === "") continue;
+          if (expected !== computed) {
+            diagnostics.push({
+              boxId: box.id,
+              property: name,
+              declared,
+              computed,
+              reason: "overridden",
+            });
+            return;
+          }
+        }
+      });
+    }
+  } finally {
+    probe.remove();
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import type { PositionedCanvasBox } from "@/layoutEngine";
+import { getBoxTreeBounds, getBoxTreeSvg } from "@/svgExport";
+
+describe("getBoxTreeBounds", () => {
+  test("covers every box, including ones left of and above the root", () => {
+    expect(
+      getBoxTreeBounds({
+        id: "root",
+        type: "Slide",
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 100,
+        children: [
+          { id: "a", type: "Card", x: -20, y: 50, width: 10, height: 10 },
+          { id: "b", type: "Card", x: 90, y: -5, width: 40, height: 200 },
+        ],
+      })
+    ).toEqual({ x: -20, y: -5, width: 150, height: 200 });
+  });
+
+  // V8 overflows its call stack when more than ~125k values are spread into Math.min
+  test("handles trees with more boxes than a call can take arguments", () => {
+    const cardCount = 200_000;
+    const box: PositionedCanvasBox = {
+      id: "root",
+      type: "Slide",
+      x: 0,
+      y: 0,
+      width: 10,
+      height: 10,
+      children: Array.from({ length: cardCount }, (_, i) => ({
+        id: `card-${i}`,
+        type: "Card",
+        x: i,
+        y: 2 * i,
+        width: 5,
+        height: 5,
+      })),
+    };
+    expect(getBoxTreeBounds(box)).toEqual({
+      x: 0,
+      y: 0,
+      width: cardCount - 1 + 5,
+      height: 2 * (cardCount - 1) + 5,
+    });
+    expect(getBoxTreeSvg({ box, padding: 0 })).toContain(
+      `viewBox="0 0 ${cardCount + 4} ${2 * cardCount + 3}"`
+    );
+  });
+});
+
+describe("getBoxTreeSvg", () => {
+  test("escapes markup and drops characters XML doesn't allow, keeping surrogate pairs", () => {
+    const text = 'a<b> & "c"\u0001\uFFFE\uFFFF\uD800 x\uDC00y \u{1F600}';
+    const svg = getBoxTreeSvg({
+      box: {
+        id: "card",
+        type: "Card",
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 20,
+        text: {
+          font: "12px sans-serif",
+          lineHeight: 14,
+          lines: [{ text, x: 0, y: 0, width: 100, height: 14 }],
+        },
+      },
+    });
+    expect(svg).toContain(
+      ">a&lt;b&gt; &amp; &quot;c&quot; xy \u{1F600}</text>"
+    );
+    expect(svg).not.toMatch(
+      /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|\p{Cs}/u
+    );
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * SVG and PNG export of positioned boxes
+ *
+ * Draws a `PositionedCanvasBox` tree the way the demo's Whiteboard does: one rect per box,
+ * styled by type and stacked by the type's z-index, with its label or wrapped text lines.
+ */
+
+import { flattenPositionedBox, type PositionedCanvasBox } from "@/layoutEngine";
+import { getBoxStyles } from "@/boxStyles";
+import { escapeXml } from "@/xml";
+
+function element(
+  name: string,
+  attributes: Record<string, string | number | undefined>,
+  content?: string
+) {
+  const attributeText = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(" ");
+  return content === undefined
+    ? `<${name} ${attributeText}/>`
+    : `<${name} ${attributeText}>${escapeXml(content)}</${name}>`;
+}
+
+const dashArrays = {
+  solid: undefined,
+  dashed: (width: number) => `${width * 3} ${width * 2}`,
+  dotted: (width: number) => `${width} ${width}`,
+};
+
+function getBoxSvg(box: PositionedCanvasBox) {
+  const style = getBoxStyles(box.type);
+  const { strokeWidth } = style;
+
+  // borders are drawn inside the box, like the border-box divs
+  const rect = element("rect", {
+    x: box.x + strokeWidth / 2,
+    y: box.y + strokeWidth / 2,
+    width: Math.max(0, box.width - strokeWidth),
+    height: Math.max(0, box.height - strokeWidth),
+    fill: style.fill,
+    stroke: style.stroke,
+    "stroke-width": strokeWidth,
+    "stroke-dasharray": dashArrays[style.borderStyle]?.(strokeWidth),
+  });
+
+  if (box.text) {
+    const { font, lineHeight } = box.text;
+    const lines = box.text.lines.map((line) =>
+      element(
+        "text",
+        {
+          x: line.x,
+          y: line.y + lineHeight / 2,
+          "dominant-baseline": "central",
+          style: `font: ${font}`,
+        },
+        line.text
+      )
+    );
+    return [rect, ...lines].join("");
+  }
+
+  const label = `${box.type} ${box.tag ?? ""}${
+    box.continuationOf ? " (continued)" : ""
+  }`.trim();
+  return (
+    rect +
+    element(
+      "text",
+      {
+        x: box.x + strokeWidth + 2,
+        y: box.y + strokeWidth + 12,
+        "font-family": "sans-serif",
+        "font-size": 12,
+      },
+      label
+    )
+  );
+}
+
+/**
+ * the bounds of a tree, for sizing its image. Reduced in one loop, since spreading a large tree
+ * into Math.min overflows the call stack in V8.
+ */
+export function getBoxTreeBounds(box: PositionedCanvasBox) {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+  for (const b of flattenPositionedBox(box)) {
+    left = Math.min(left, b.x);
+    top = Math.min(top, b.y);
+    right = Math.max(right, b.x + b.width);
+    bottom = Math.max(bottom, b.y + b.height);
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**a standalone SVG document, cropped to the tree's bounds plus padding */
+export function getBoxTreeSvg(args: {
+  box: PositionedCanvasBox;
+  padding?: number;
+  background?: string;
+}): string {
+  const { box, padding = 20, background = "#ffffff" } = args;
+  const bounds = getBoxTreeBounds(box);
+  const x = bounds.x - padding;
+  const y = bounds.y - padding;
+  const width = bounds.width + padding * 2;
+  const height = bounds.height + padding * 2;
+
+  // stable sort, so boxes of the same type keep tree order like the divs do
+  const boxes = flattenPositionedBox(box).sort(
+    (a, b) => getBoxStyles(a.type).zIndex - getBoxStyles(b.type).zIndex
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    element("rect", { x, y, width, height, fill: background }),
+    ...boxes.map(getBoxSvg),
+    "</svg>",
+  ].join("\n");
+}
+
+/**rasterizes an SVG document in the browser */
+export async function svgToPngBlob(args: {
+  svg: string;
+  /**device pixels per px */
+  scale?: number;
+}): Promise<Blob> {
+  const { svg, scale = 1 } = args;
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(image.naturalWidth * scale);
+    canvas.height = Math.ceil(image.naturalHeight * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("canvas 2d context is not available");
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("PNG encoding failed")),
+        "image/png"
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,206 @@
+import { describe, expect, test } from "bun:test";
+import type { Box } from "@/layoutEngine";
+import {
+  compileBoxTree,
+  type BoxTemplate,
+  type DatasetRecord,
+} from "@/templateCompiler";
+
+const template: BoxTemplate = {
+  slideCss: "width: 800px;",
+  wrappingRowCss: "display: flex;",
+  cardCss: "width: 50px; height: 50px;",
+  keyField: "key",
+};
+
+/**the card keys in tree order */
+function getCardKeys(box: Box): string[] {
+  return box.type === "Card"
+    ? [box.recordId!]
+    : (box.children ?? []).flatMap(getCardKeys);
+}
+
+const getWrappingRow = (records: DatasetRecord[], more: Partial<BoxTemplate>) =>
+  compileBoxTree({ records, template: { ...template, ...more } }).children![0];
+
+describe("compileBoxTree", () => {
+  const records: DatasetRecord[] = [
+    { key: "a", priority: 2, owner: "Sam" },
+    { key: "b", priority: null, owner: "Ana" },
+    { key: "c", priority: 10, owner: "Ana" },
+    { key: "d", priority: "", owner: "Sam" },
+    { key: "e", priority: 2, owner: "Ana" },
+  ];
+
+  test("sorts ascending and descending, with empty values last either way", () => {
+    expect(
+      getCardKeys(getWrappingRow(records, { sortBy: [{ field: "priority" }] }))
+    ).toEqual(["a", "e", "c", "b", "d"]);
+    expect(
+      getCardKeys(
+        getWrappingRow(records, {
+          sortBy: [{ field: "priority", direction: "desc" }],
+        })
+      )
+    ).toEqual(["c", "a", "e", "b", "d"]);
+  });
+
+  test("breaks ties with the next sort field", () => {
+    expect(
+      getCardKeys(
+        getWrappingRow(records, {
+          sortBy: [
+            { field: "priority", direction: "desc" },
+            { field: "owner" },
+          ],
+        })
+      )
+    ).toEqual(["c", "e", "a", "b", "d"]);
+  });
+
+  test("compares numeric text by number", () => {
+    const sorted = getWrappingRow(
+      ["item 10", "item 9", "item 100"].map((key) => ({ key })),
+      { sortBy: [{ field: "key" }] }
+    );
+    expect(getCardKeys(sorted)).toEqual(["item 9", "item 10", "item 100"]);
+  });
+
+  test("nests a Group Card per distinct value at each level, in order of first record", () => {
+    const groupLevel = (field: string) => ({
+      field,
+      groupCardCss: `${field}-group`,
+      distinctFieldValuesCss: `${field}-values`,
+      label: { font: "12px sans-serif", lineHeight: 14 },
+    });
+    const row = getWrappingRow(
+      [
+        { key: 1, team: "Web", status: "Done" },
+        { key: 2, team: "App", status: "To do" },
+        { key: 3, team: "Web", status: "To do" },
+        { key: 4, team: "Web", status: "Done" },
+        { key: 5, team: "App/iOS", status: null },
+      ],
+      { groupBy: [groupLevel("team"), groupLevel("status")] }
+    );
+
+    const outline = (box: Box): unknown => ({
+      id: box.id,
+      ...(box.type === "Group Card" && { label: box.text?.content }),
+      ...(box.children && { children: box.children.map(outline) }),
+    });
+    expect(row.children!.map(outline)).toEqual([
+      {
+        id: "group-Web",
+        label: "Web",
+        children: [
+          {
+            id: "values-Web",
+            children: [
+              {
+                id: "group-Web/Done",
+                label: "Done",
+                children: [
+                  {
+                    id: "values-Web/Done",
+                    children: [{ id: "card-1" }, { id: "card-4" }],
+                  },
+                ],
+              },
+              {
+                id: "group-Web/To%20do",
+                label: "To do",
+                children: [
+                  { id: "values-Web/To%20do", children: [{ id: "card-3" }] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        id: "group-App",
+        label: "App",
+        children: [
+          {
+            id: "values-App",
+            children: [
+              {
+                id: "group-App/To%20do",
+                label: "To do",
+                children: [
+                  { id: "values-App/To%20do", children: [{ id: "card-2" }] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        id: "group-App%2FiOS",
+        label: "App/iOS",
+        children: [
+          {
+            id: "values-App%2FiOS",
+            children: [
+              {
+                id: "group-App%2FiOS/%empty",
+                label: "",
+                children: [
+                  {
+                    id: "values-App%2FiOS/%empty",
+                    children: [{ id: "card-5" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+    const [web] = row.children!;
+    expect(web.css).toBe("team-group");
+    expect(web.children![0].children![0].css).toBe("status-group");
+  });
+
+  test("rejects missing and duplicate keys", () => {
+    expect(() => getWrappingRow([{ key: 1 }, { key: "" }], {})).toThrow(
+      'record 1 has no "key" key'
+    );
+    expect(() => getWrappingRow([{ key: "a" }, { key: "a" }], {})).toThrow(
+      'duplicate "key" key "a"'
+    );
+  });
+
+  test("rejects a number and its text, which would share an id", () => {
+    expect(() => getWrappingRow([{ key: 1 }, { key: "1" }], {})).toThrow(
+      '"key" keys 1 and "1" map to the same card id'
+    );
+    expect(() =>
+      getWrappingRow(
+        [
+          { key: "a", column: 1 },
+          { key: "b", column: "1" },
+        ],
+        {
+          groupBy: [
+            { field: "column", groupCardCss: "", distinctFieldValuesCss: "" },
+          ],
+        }
+      )
+    ).toThrow('"column" values 1 and "1" map to the same group id');
+  });
+
+  test("keeps empty values of any type in one group", () => {
+    const row = getWrappingRow(
+      [{ key: "a", column: null }, { key: "b", column: "" }, { key: "c" }],
+      {
+        groupBy: [
+          { field: "column", groupCardCss: "", distinctFieldValuesCss: "" },
+        ],
+      }
+    );
+    expect(row.children!.map((group) => group.id)).toEqual(["group-%empty"]);
+    expect(getCardKeys(row)).toEqual(["a", "b", "c"]);
+  });
+});
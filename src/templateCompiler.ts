@@ -0,0 +1,257 @@
+/**
+ * Dataset to Box tree
+ *
+ * Compiles an array of records and a template into the Slide > Wrapping Row > cards tree that
+ * the layout engine takes. Group-by levels nest a "Group Card" and "Distinct Field Values" box
+ * per distinct value. Ids come from record keys and group values, so the same record keeps the
+ * same box id across imports.
+ */
+
+import type { Box, BoxText } from "@/layoutEngine";
+
+export type DatasetRecord = Record<string, unknown>;
+
+export interface TemplateSort {
+  field: string;
+  direction?: "asc" | "desc";
+}
+
+export interface GroupByLevel {
+  field: string;
+  groupCardCss: string;
+  distinctFieldValuesCss: string;
+  /**when set, the group card shows its field value as text */
+  label?: Omit<BoxText, "content">;
+}
+
+export interface BoxTemplate {
+  slideCss: string;
+  wrappingRowCss: string;
+  cardCss: string;
+  /**field that uniquely identifies a record */
+  keyField: string;
+  /**when set, each card shows this field as text */
+  cardText?: Omit<BoxText, "content"> & { field: string };
+  /**outermost group first. Groups appear in the order of their first record after sorting */
+  groupBy?: GroupByLevel[];
+  sortBy?: TemplateSort[];
+}
+
+const isEmptyValue = (v: unknown) => v === null || v === undefined || v === "";
+
+function compareValues(
+  a: unknown,
+  b: unknown,
+  direction: "asc" | "desc"
+): number {
+  // empty values sort last in either direction
+  if (isEmptyValue(a) || isEmptyValue(b)) {
+    return Number(isEmptyValue(a)) - Number(isEmptyValue(b));
+  }
+  const result =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return direction === "asc" ? result : -result;
+}
+
+function sortRecords(
+  records: DatasetRecord[],
+  sortBy: TemplateSort[]
+): DatasetRecord[] {
+  return [...records].sort((a, b) => {
+    for (const { field, direction = "asc" } of sortBy) {
+      const result = compareValues(a[field], b[field], direction);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  });
+}
+
+function formatValue(value: unknown) {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * "/" and "%" only appear escaped, so they're safe as separators and markers. Values are
+ * formatted as text, so 1 and "1" share an id; the compiler rejects values that collide that way.
+ */
+function toIdPart(value: unknown) {
+  return encodeURIComponent(formatValue(value)) || "%empty";
+}
+
+export function compileBoxTree(args: {
+  records: DatasetRecord[];
+  template: BoxTemplate;
+  /**prepended to every id, to keep several compiled trees apart */
+  idPrefix?: string;
+}): Box {
+  const { records, template, idPrefix = "" } = args;
+  const { keyField, cardText, groupBy = [], sortBy = [] } = template;
+
+  /**keys by the card id they map to */
+  const seenKeys = new Map<string, unknown>();
+  let cardCount = 0;
+
+  const toCard = (record: DatasetRecord): Box => {
+    const key = record[keyField];
+    if (key === null || key === undefined || key === "") {
+      throw new Error(`record ${cardCount} has no "${keyField}" key`);
+    }
+    const id = `${idPrefix}card-${toIdPart(key)}`;
+    if (seenKeys.has(id)) {
+      const seenKey = seenKeys.get(id);
+      throw new Error(
+        typeof seenKey === typeof key
+          ? `duplicate "${keyField}" key ${JSON.stringify(key)}`
+          : `"${keyField}" keys ${JSON.stringify(seenKey)} and ${JSON.stringify(
+              key
+            )} map to the same card id`
+      );
+    }
+    seenKeys.set(id, key);
+    cardCount += 1;
+
+    return {
+      id,
+      type: "Card",
+      tag: cardCount,
+      recordId: formatValue(key),
+      css: template.cardCss,
+      text: cardText
+        ? {
+            content: formatValue(record[cardText.field]),
+            font: cardText.font,
+            lineHeight: cardText.lineHeight,
+            maxLines: cardText.maxLines,
+          }
+        : undefined,
+    };
+  };
+
+  const toGroups = (
+    groupRecords: DatasetRecord[],
+    levels: GroupByLevel[],
+    groupPath: string[]
+  ): Box[] => {
+    const [level, ...innerLevels] = levels;
+    if (!level) {
+      return groupRecords.map(toCard);
+    }
+
+    const groups = new Map<
+      string,
+      { value: unknown; records: DatasetRecord[] }
+    >();
+    for (const record of groupRecords) {
+      const value = record[level.field];
+      const groupKey = toIdPart(value);
+      const group = groups.get(groupKey);
+      // empty values share a group on purpose, but 1 and "1" would be merged silently
+      if (
+        group &&
+        typeof group.value !== typeof value &&
+        !isEmptyValue(value)
+      ) {
+        throw new Error(
+          `"${level.field}" values ${JSON.stringify(
+            group.value
+          )} and ${JSON.stringify(value)} map to the same group id`
+        );
+      }
+      if (group) {
+        group.records.push(record);
+      } else {
+        groups.set(groupKey, { value, records: [record] });
+      }
+    }
+
+    return [...groups].map(([groupKey, group], i) => {
+      const path = [...groupPath, groupKey];
+      return {
+        id: `${idPrefix}group-${path.join("/")}`,
+        type: "Group Card",
+        tag: i,
+        css: level.groupCardCss,
+        text: level.label
+          ? { ...level.label, content: formatValue(group.value) }
+          : undefined,
+        children: [
+          {
+            id: `${idPrefix}values-${path.join("/")}`,
+            type: "Distinct Field Values",
+            css: level.distinctFieldValuesCss,
+            children: toGroups(group.records, innerLevels, path),
+          },
+        ],
+      };
+    });
+  };
+
+  return {
+    id: `${idPrefix}slide`,
+    type: "Slide",
+    css: template.slideCss,
+    children: [
+      {
+        id: `${idPrefix}wrapping-row`,
+        type: "Wrapping Row",
+        css: template.wrappingRowCss,
+        children: toGroups(sortRecords(records, sortBy), groupBy, []),
+      },
+    ],
+  };
+}
+
+const regionGapPx = 20;
+
+/**
+ * compiles each set of records into its own Wrapping Row, side by side on one slide, like "To
+ * do" and "Done" columns. The rows sit in a "Regions" box that takes the place a single row
+ * would have, and share its width. Region ids are prefixed with `region-{index}-` after idPrefix.
+ */
+export function compileRegionedBoxTree(args: {
+  regions: DatasetRecord[][];
+  template: BoxTemplate;
+  idPrefix?: string;
+}): Box {
+  const { regions, template, idPrefix = "" } = args;
+
+  const wrappingRows = regions.map(
+    (records, i) =>
+      compileBoxTree({
+        records,
+        template: {
+          ...template,
+          // the Regions box has the row's place, so the rows only keep their own layout
+          wrappingRowCss: `${template.wrappingRowCss}; margin: 0; flex: 1 1 0; min-width: 0;`,
+        },
+        idPrefix: `${idPrefix}region-${i}-`,
+      }).children![0]
+  );
+
+  return {
+    id: `${idPrefix}slide`,
+    type: "Slide",
+    css: template.slideCss,
+    children: [
+      {
+        id: `${idPrefix}regions`,
+        type: "Regions",
+        css: `${template.wrappingRowCss}; display: flex; flex-direction: row; flex-wrap: nowrap; gap: ${regionGapPx}px; padding: 0;`,
+        children: wrappingRows,
+      },
+    ],
+  };
+}
+
+/**the containers whose children get split: the Wrapping Row, or each region's */
+export function getWrappingRows<T extends { type: string; children?: T[] }>(
+  slide: T
+): T[] {
+  return (slide.children ?? []).flatMap((child) =>
+    child.type === "Regions" ? child.children ?? [] : [child]
+  );
+}
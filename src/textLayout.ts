@@ -0,0 +1,144 @@
+/**
+ * Text measurement and line breaking for `Box.text`
+ *
+ * Both layout backends render text the same way: an anonymous block before the box's
+ * children, wrapped at spaces with `overflow-wrap: break-word` and left aligned.
+ */
+
+import type { BoxText } from "@/layoutEngine";
+
+/**width in px of the text when drawn in the given CSS font */
+export type TextMeasurer = (text: string, font: string) => number;
+
+export interface TextLine {
+  text: string;
+  width: number;
+}
+
+/**the DOM text element gets these styles, and the solver's line breaking mirrors them */
+export function getTextElementCss(text: BoxText) {
+  return [
+    `font: ${text.font}`,
+    `line-height: ${text.lineHeight}px`,
+    "white-space: normal",
+    "overflow-wrap: break-word",
+    "text-align: left",
+    ...(text.maxLines !== undefined
+      ? [
+          "display: -webkit-box",
+          "-webkit-box-orient: vertical",
+          `-webkit-line-clamp: ${text.maxLines}`,
+          "overflow: hidden",
+        ]
+      : []),
+  ].join("; ");
+}
+
+const approximateCharWidthEm = 0.55;
+
+/**
+ * measures with a canvas when there is one. Without one (e.g. on the Bun server) widths are
+ * approximated from the font size, so pass a real measurer to the solver where it matters.
+ */
+export function getDefaultTextMeasurer(): TextMeasurer {
+  const context =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(1, 1).getContext("2d")
+      : typeof document !== "undefined"
+      ? document.createElement("canvas").getContext("2d")
+      : null;
+
+  if (context) {
+    return (text, font) => {
+      context.font = font;
+      return context.measureText(text).width;
+    };
+  }
+
+  return (text, font) => {
+    const fontSize = Number(/(\d*\.?\d+)px/.exec(font)?.[1] ?? 16);
+    return text.length * fontSize * approximateCharWidthEm;
+  };
+}
+
+function getWords(content: string) {
+  return content.split(/\s+/).filter((w) => w.length > 0);
+}
+
+export function getTextIntrinsicWidths(args: {
+  text: BoxText;
+  measureText: TextMeasurer;
+}): { min: number; max: number } {
+  const { text, measureText } = args;
+  const words = getWords(text.content);
+  return {
+    min: Math.max(0, ...words.map((w) => measureText(w, text.font))),
+    max: measureText(words.join(" "), text.font),
+  };
+}
+
+/**breaks a word that is wider than the line on its own into pieces that fit */
+function breakWord(
+  word: string,
+  maxWidth: number,
+  font: string,
+  measureText: TextMeasurer
+): Array<string> {
+  const pieces: Array<string> = [];
+  let piece = "";
+  for (const char of word) {
+    if (piece && measureText(piece + char, font) > maxWidth) {
+      pieces.push(piece);
+      piece = char;
+    } else {
+      piece += char;
+    }
+  }
+  if (piece) pieces.push(piece);
+  return pieces;
+}
+
+/**greedy line breaking at spaces, truncated to maxLines with an ellipsis */
+export function breakTextIntoLines(args: {
+  text: BoxText;
+  maxWidth: number;
+  measureText: TextMeasurer;
+}): Array<TextLine> {
+  const { text, maxWidth, measureText } = args;
+  const { font } = text;
+  const lines: Array<string> = [];
+  let current = "";
+
+  for (const word of getWords(text.content)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, font) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    if (measureText(word, font) <= maxWidth) {
+      current = word;
+    } else {
+      const pieces = breakWord(word, maxWidth, font, measureText);
+      lines.push(...pieces.slice(0, -1));
+      current = pieces.at(-1) ?? "";
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+
+  const { maxLines } = text;
+  if (maxLines !== undefined && maxLines > 0 && lines.length > maxLines) {
+    lines.length = maxLines;
+    let last = lines[maxLines - 1] ?? "";
+    while (last && measureText(`${last}…`, font) > maxWidth) {
+      last = last.slice(0, -1);
+    }
+    lines[maxLines - 1] = `${last.trimEnd()}…`;
+  }
+
+  return lines.map((line) => ({ text: line, width: measureText(line, font) }));
+}
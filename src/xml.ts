@@ -0,0 +1,23 @@
+/**
+ * XML text escaping
+ *
+ * Shared by the SVG and PowerPoint exports, which both write attribute values and text
+ * straight from box ids, labels and record data.
+ */
+
+/**
+ * characters XML 1.0 doesn't allow anywhere, not even escaped. With the `u` flag, surrogate
+ * pairs are matched as one code point, so `\p{Cs}` only matches lone halves.
+ */
+const invalidXmlCharacters =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|\p{Cs}/gu;
+
+/**escapes markup characters for text and attribute values, and drops the invalid ones */
+export function escapeXml(text: string) {
+  return text
+    .replace(invalidXmlCharacters, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}